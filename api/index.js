@@ -4,7 +4,9 @@ import { registerRoutes } from '../server/routes.js';
 
 const app = express();
 
-// Register all routes
+// Register all routes. No background job worker runs here, since the platform stops work once a
+// response is sent; queued jobs are run inside POST /api/processing-jobs/run requests instead.
+// Uploads stay on this instance's disk, so the function must be limited to a single instance.
 registerRoutes(app);
 
 // Create server
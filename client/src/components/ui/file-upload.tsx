@@ -112,7 +112,7 @@ export function FileUpload({ onFileUpload, isUploading = false, uploadProgress =
           
           <div className="space-y-2">
             <p className="text-lg font-semibold text-slate-800">
-              {isDragActive ? 'Drop your audio file here!' : 'Upload Japanese Audio'}
+              {isDragActive ? 'Drop your audio file here!' : 'Upload Audio'}
             </p>
             <p className="text-sm text-slate-600">
               Drag & drop your audio file or click to browse
@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { BookOpen, Plus, Trash2 } from 'lucide-react';
+import { Button } from './button';
+import { Input } from './input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+import { apiRequest } from '@/lib/queryClient';
+
+interface GlossaryTerm {
+  id: number;
+  projectId: number | null;
+  audioFileId: number | null;
+  sourceTerm: string;
+  targetTerm: string;
+  notes: string | null;
+}
+
+interface Project {
+  id: number;
+  name: string;
+}
+
+interface GlossaryPanelProps {
+  audioFileId: number;
+  projectId: number | null;
+  onProjectChange: (projectId: number | null) => void;
+}
+
+export function GlossaryPanel({ audioFileId, projectId, onProjectChange }: GlossaryPanelProps) {
+  const [form, setForm] = useState({ sourceTerm: '', targetTerm: '', notes: '' });
+  const [scope, setScope] = useState<'file' | 'project'>('file');
+  const [newProjectName, setNewProjectName] = useState('');
+  const queryClient = useQueryClient();
+
+  const { data: terms = [] } = useQuery<GlossaryTerm[]>({
+    queryKey: [`/api/audio/${audioFileId}/glossary`]
+  });
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ['/api/projects']
+  });
+
+  const invalidateGlossary = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/audio/${audioFileId}/glossary`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/audio/${audioFileId}/glossary-violations`] });
+  };
+
+  const addTermMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/glossary-terms', {
+        sourceTerm: form.sourceTerm,
+        targetTerm: form.targetTerm,
+        notes: form.notes || null,
+        ...(scope === 'project' && projectId ? { projectId } : { audioFileId })
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setForm({ sourceTerm: '', targetTerm: '', notes: '' });
+      invalidateGlossary();
+    }
+  });
+
+  const deleteTermMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/glossary-terms/${id}`);
+      return response.json();
+    },
+    onSuccess: invalidateGlossary
+  });
+
+  const assignProjectMutation = useMutation({
+    mutationFn: async (nextProjectId: number | null) => {
+      await apiRequest('PUT', `/api/audio/${audioFileId}/project`, { projectId: nextProjectId });
+      return nextProjectId;
+    },
+    onSuccess: (nextProjectId) => {
+      onProjectChange(nextProjectId);
+      invalidateGlossary();
+    }
+  });
+
+  const createProjectMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest('POST', '/api/projects', { name });
+      return response.json() as Promise<Project>;
+    },
+    onSuccess: (project) => {
+      setNewProjectName('');
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      assignProjectMutation.mutate(project.id);
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="text-sm font-medium text-slate-700 mb-2 block">Project</label>
+        <Select
+          value={projectId ? String(projectId) : 'none'}
+          onValueChange={(value) => assignProjectMutation.mutate(value === 'none' ? null : parseInt(value))}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No project</SelectItem>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={String(project.id)}>{project.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center space-x-2 mt-2">
+          <Input
+            value={newProjectName}
+            onChange={(e) => setNewProjectName(e.target.value)}
+            placeholder="New project name..."
+            className="h-8"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!newProjectName.trim() || createProjectMutation.isPending}
+            onClick={() => createProjectMutation.mutate(newProjectName.trim())}
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2 max-h-48 overflow-y-auto">
+        {terms.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-2">No glossary terms</p>
+        ) : (
+          terms.map((term) => (
+            <div key={term.id} className="flex items-center justify-between p-2 bg-slate-50 rounded-lg">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-700 truncate">
+                  {term.sourceTerm} → {term.targetTerm}
+                </p>
+                <p className="text-xs text-slate-500 truncate">
+                  {term.audioFileId ? 'This file' : 'Project'}{term.notes ? ` · ${term.notes}` : ''}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => deleteTermMutation.mutate(term.id)}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Input
+          value={form.sourceTerm}
+          onChange={(e) => setForm(prev => ({ ...prev, sourceTerm: e.target.value }))}
+          placeholder="Japanese term..."
+          className="h-8"
+        />
+        <Input
+          value={form.targetTerm}
+          onChange={(e) => setForm(prev => ({ ...prev, targetTerm: e.target.value }))}
+          placeholder="Required English rendering..."
+          className="h-8"
+        />
+        <Input
+          value={form.notes}
+          onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+          placeholder="Notes (optional)..."
+          className="h-8"
+        />
+        <div className="flex items-center space-x-2">
+          <Select value={scope} onValueChange={(value) => setScope(value as 'file' | 'project')}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="file">This file</SelectItem>
+              <SelectItem value="project" disabled={!projectId}>Whole project</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            disabled={!form.sourceTerm.trim() || !form.targetTerm.trim() || addTermMutation.isPending}
+            onClick={() => addTermMutation.mutate()}
+          >
+            <BookOpen className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
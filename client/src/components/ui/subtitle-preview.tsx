@@ -1,15 +1,51 @@
 import { useState } from 'react';
-import { Edit2, Download, Play } from 'lucide-react';
+import { Edit2, Download, Play, RefreshCw, BookOpen, Archive, Scissors, AlertTriangle } from 'lucide-react';
 import { Button } from './button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+import { Input } from './input';
 import { Textarea } from './textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './dialog';
 
+interface SubtitleWord {
+  start: number;
+  end: number;
+  text: string;
+}
+
 interface Subtitle {
   id: number;
   startTime: number;
   endTime: number;
   japaneseText: string;
   englishText: string;
+  language?: string | null;
+  words?: SubtitleWord[] | null;
+  speakerId?: number | null;
+  translationStatus?: string;
+}
+
+interface Speaker {
+  id: number;
+  name: string;
+  color: string;
+}
+
+interface GlossaryViolation {
+  subtitleId: number;
+  sourceTerm: string;
+  targetTerm: string;
+}
+
+interface QcIssue {
+  subtitleId: number;
+  rule: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+interface LanguageOption {
+  code: string;
+  name: string;
 }
 
 interface SubtitlePreviewProps {
@@ -18,6 +54,42 @@ interface SubtitlePreviewProps {
   onTimeSeek: (time: number) => void;
   onSubtitleEdit: (id: number, updates: Partial<Subtitle>) => void;
   onDownload: () => void;
+  downloadLabel?: string;
+  onRetranslate?: (subtitleIds?: number[]) => void;
+  onRetryFailed?: () => void;
+  retranslateProgress?: number | null;
+  glossaryViolations?: GlossaryViolation[];
+  qcIssues?: QcIssue[];
+  // The englishText of each subtitle holds the selected language track
+  languages?: LanguageOption[];
+  language?: string;
+  onLanguageChange?: (language: string) => void;
+  onDownloadBundle?: () => void;
+  onSplit?: (id: number, at: number) => void;
+  speakers?: Speaker[];
+  onSpeakerUpdate?: (id: number, updates: { name?: string; color?: string }) => void;
+}
+
+// Splits cue text into runs so each timed word can be highlighted; punctuation the word
+// timings leave out stays in the untimed runs between them
+function toWordRuns(text: string, words: SubtitleWord[]): { text: string; start: number | null }[] {
+  const runs: { text: string; start: number | null }[] = [];
+  let cursor = 0;
+
+  for (const word of words) {
+    const index = text.indexOf(word.text, cursor);
+    if (!word.text || index === -1) continue;
+    if (index > cursor) {
+      runs.push({ text: text.slice(cursor, index), start: null });
+    }
+    runs.push({ text: word.text, start: word.start });
+    cursor = index + word.text.length;
+  }
+
+  if (cursor < text.length) {
+    runs.push({ text: text.slice(cursor), start: null });
+  }
+  return runs;
 }
 
 export function SubtitlePreview({
@@ -25,10 +97,26 @@ export function SubtitlePreview({
   currentTime,
   onTimeSeek,
   onSubtitleEdit,
-  onDownload
+  onDownload,
+  downloadLabel = 'SRT',
+  onRetranslate,
+  onRetryFailed,
+  retranslateProgress = null,
+  glossaryViolations = [],
+  qcIssues = [],
+  languages = [],
+  language = 'en',
+  onLanguageChange,
+  onDownloadBundle,
+  onSplit,
+  speakers = [],
+  onSpeakerUpdate
 }: SubtitlePreviewProps) {
   const [editingSubtitle, setEditingSubtitle] = useState<Subtitle | null>(null);
-  const [editForm, setEditForm] = useState({ japaneseText: '', englishText: '' });
+  const [editForm, setEditForm] = useState<{ japaneseText: string; englishText: string; speakerId?: number | null }>({
+    japaneseText: '',
+    englishText: ''
+  });
 
   const formatTime = (milliseconds: number) => {
     const totalSeconds = Math.floor(milliseconds / 1000);
@@ -43,7 +131,8 @@ export function SubtitlePreview({
     setEditingSubtitle(subtitle);
     setEditForm({
       japaneseText: subtitle.japaneseText,
-      englishText: subtitle.englishText
+      englishText: subtitle.englishText,
+      ...(speakers.length > 0 ? { speakerId: subtitle.speakerId ?? null } : {})
     });
   };
 
@@ -64,113 +153,323 @@ export function SubtitlePreview({
     );
   };
 
+  const getSpeaker = (subtitle: Subtitle) => speakers.find(speaker => speaker.id === subtitle.speakerId);
+
   const currentSubtitle = getCurrentSubtitle();
+  const currentSpeaker = currentSubtitle && getSpeaker(currentSubtitle);
+  const currentMs = currentTime * 1000;
+
+  const canSplitAtPlayhead = (subtitle: Subtitle) =>
+    currentMs > subtitle.startTime && currentMs < subtitle.endTime;
+
+  const handleSplitBefore = (subtitle: Subtitle, word: SubtitleWord) => {
+    if (onSplit) {
+      onSplit(subtitle.id, word.start);
+      setEditingSubtitle(null);
+    }
+  };
+  const failedCount = subtitles.filter(subtitle => subtitle.translationStatus === 'failed').length;
+  const languageName = languages.find(option => option.code === language)?.name || 'English';
 
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold text-slate-900">Subtitle Preview</h3>
-        <Button
-          onClick={onDownload}
-          className="bg-green-500 hover:bg-green-600 text-white"
-        >
-          <Download className="w-4 h-4 mr-2" />
-          Download SRT
-        </Button>
+        <div className="flex items-center space-x-2">
+          {languages.length > 1 && onLanguageChange && (
+            <Select value={language} onValueChange={onLanguageChange}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {languages.map((option) => (
+                  <SelectItem key={option.code} value={option.code}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {onRetryFailed && failedCount > 0 && (
+            <Button
+              variant="outline"
+              onClick={onRetryFailed}
+              disabled={retranslateProgress !== null}
+              className="text-red-600"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Retry Failed ({failedCount})
+            </Button>
+          )}
+          {onRetranslate && (
+            <Button
+              variant="outline"
+              onClick={() => onRetranslate()}
+              disabled={retranslateProgress !== null}
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${retranslateProgress !== null ? 'animate-spin' : ''}`} />
+              {retranslateProgress !== null ? `Re-translating ${retranslateProgress}%` : 'Re-translate'}
+            </Button>
+          )}
+          <Button
+            onClick={onDownload}
+            className="bg-green-500 hover:bg-green-600 text-white"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download {downloadLabel}
+          </Button>
+          {languages.length > 1 && onDownloadBundle && (
+            <Button variant="outline" onClick={onDownloadBundle}>
+              <Archive className="w-4 h-4 mr-2" />
+              All Languages
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Current Subtitle Display */}
       {currentSubtitle && (
         <div className="bg-slate-900 text-white rounded-lg p-4 text-center">
-          <p className="text-sm opacity-75 mb-1">{currentSubtitle.japaneseText}</p>
+          {currentSpeaker && (
+            <p className="text-xs font-semibold mb-1" style={{ color: currentSpeaker.color }}>{currentSpeaker.name}</p>
+          )}
+          <p className="text-sm opacity-75 mb-1">
+            {currentSubtitle.words?.length
+              ? toWordRuns(currentSubtitle.japaneseText, currentSubtitle.words).map((run, index) => (
+                  <span
+                    key={index}
+                    className={run.start !== null && currentMs >= run.start ? 'text-yellow-300' : undefined}
+                  >
+                    {run.text}
+                  </span>
+                ))
+              : currentSubtitle.japaneseText}
+          </p>
           <p className="text-lg font-medium">{currentSubtitle.englishText}</p>
         </div>
       )}
 
+      {/* Speakers */}
+      {speakers.length > 0 && onSpeakerUpdate && (
+        <div className="flex flex-wrap gap-2">
+          {speakers.map((speaker) => (
+            <div key={speaker.id} className="flex items-center space-x-1 border border-slate-200 rounded-lg px-2 py-1">
+              {/* Saved on blur like the name, since dragging the picker fires a change per step */}
+              <input
+                key={speaker.color}
+                type="color"
+                defaultValue={speaker.color}
+                onBlur={(e) => {
+                  const color = e.target.value.toUpperCase();
+                  if (color !== speaker.color.toUpperCase()) {
+                    onSpeakerUpdate(speaker.id, { color });
+                  }
+                }}
+                className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+                title="Speaker color"
+              />
+              <Input
+                key={speaker.name}
+                defaultValue={speaker.name}
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== speaker.name) {
+                    onSpeakerUpdate(speaker.id, { name });
+                  }
+                }}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="h-7 w-32 text-sm"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Subtitle List */}
       <div className="space-y-2 max-h-96 overflow-y-auto">
-        {subtitles.map((subtitle) => (
-          <div
-            key={subtitle.id}
-            className={`border border-slate-200 rounded-lg p-3 hover:bg-slate-50 cursor-pointer transition-colors ${
-              currentSubtitle?.id === subtitle.id ? 'bg-blue-50 border-blue-300' : ''
-            }`}
-            onClick={() => handleSeek(subtitle.startTime)}
-          >
-            <div className="flex items-center justify-between mb-1">
-              <span className="text-xs text-slate-500 font-medium">
-                {formatTime(subtitle.startTime)} → {formatTime(subtitle.endTime)}
-              </span>
-              <div className="flex items-center space-x-1">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleSeek(subtitle.startTime);
-                  }}
-                  className="h-6 w-6 p-0"
-                >
-                  <Play className="w-3 h-3" />
-                </Button>
-                <Dialog>
-                  <DialogTrigger asChild>
+        {subtitles.map((subtitle) => {
+          const issues = qcIssues.filter(issue => issue.subtitleId === subtitle.id);
+          const hasError = issues.some(issue => issue.severity === 'error');
+
+          return (
+            <div
+              key={subtitle.id}
+              className={`border border-slate-200 rounded-lg p-3 hover:bg-slate-50 cursor-pointer transition-colors ${
+                currentSubtitle?.id === subtitle.id ? 'bg-blue-50 border-blue-300' : hasError ? 'border-red-300' : ''
+              }`}
+              onClick={() => handleSeek(subtitle.startTime)}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-xs text-slate-500 font-medium">
+                  {formatTime(subtitle.startTime)} → {formatTime(subtitle.endTime)}
+                  {getSpeaker(subtitle) && (
+                    <span className="ml-2 font-semibold" style={{ color: getSpeaker(subtitle)!.color }}>{getSpeaker(subtitle)!.name}</span>
+                  )}
+                  {subtitle.language && subtitle.language !== 'ja' && (
+                    <span className="ml-2 px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 uppercase">{subtitle.language}</span>
+                  )}
+                  {subtitle.translationStatus === 'failed' && (
+                    <span className="ml-2 px-1.5 py-0.5 rounded bg-red-50 text-red-600">Translation failed</span>
+                  )}
+                </span>
+                <div className="flex items-center space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleSeek(subtitle.startTime);
+                    }}
+                    className="h-6 w-6 p-0"
+                  >
+                    <Play className="w-3 h-3" />
+                  </Button>
+                  {onRetranslate && (
                     <Button
                       variant="ghost"
                       size="sm"
+                      disabled={retranslateProgress !== null}
                       onClick={(e) => {
                         e.stopPropagation();
-                        handleEditStart(subtitle);
+                        onRetranslate([subtitle.id]);
                       }}
                       className="h-6 w-6 p-0"
                     >
-                      <Edit2 className="w-3 h-3" />
+                      <RefreshCw className="w-3 h-3" />
                     </Button>
-                  </DialogTrigger>
-                  <DialogContent>
-                    <DialogHeader>
-                      <DialogTitle>Edit Subtitle</DialogTitle>
-                    </DialogHeader>
-                    <div className="space-y-4">
-                      <div>
-                        <label className="text-sm font-medium text-slate-700 mb-2 block">
-                          Japanese Text
-                        </label>
-                        <Textarea
-                          value={editForm.japaneseText}
-                          onChange={(e) => setEditForm(prev => ({ ...prev, japaneseText: e.target.value }))}
-                          placeholder="Japanese text..."
-                          className="min-h-[80px]"
-                        />
-                      </div>
-                      <div>
-                        <label className="text-sm font-medium text-slate-700 mb-2 block">
-                          English Translation
-                        </label>
-                        <Textarea
-                          value={editForm.englishText}
-                          onChange={(e) => setEditForm(prev => ({ ...prev, englishText: e.target.value }))}
-                          placeholder="English translation..."
-                          className="min-h-[80px]"
-                        />
-                      </div>
-                      <div className="flex justify-end space-x-2">
-                        <Button variant="outline" onClick={() => setEditingSubtitle(null)}>
-                          Cancel
-                        </Button>
-                        <Button onClick={handleEditSave}>
-                          Save Changes
-                        </Button>
+                  )}
+                  {onSplit && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Split at playhead"
+                      disabled={!canSplitAtPlayhead(subtitle)}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onSplit(subtitle.id, currentMs);
+                      }}
+                      className="h-6 w-6 p-0"
+                    >
+                      <Scissors className="w-3 h-3" />
+                    </Button>
+                  )}
+                  <Dialog
+                    open={editingSubtitle?.id === subtitle.id}
+                    onOpenChange={(open) => !open && setEditingSubtitle(null)}
+                  >
+                    <DialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleEditStart(subtitle);
+                        }}
+                        className="h-6 w-6 p-0"
+                      >
+                        <Edit2 className="w-3 h-3" />
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>Edit Subtitle</DialogTitle>
+                      </DialogHeader>
+                      <div className="space-y-4">
+                        {speakers.length > 0 && (
+                          <div>
+                            <label className="text-sm font-medium text-slate-700 mb-2 block">
+                              Speaker
+                            </label>
+                            <Select
+                              value={editForm.speakerId ? String(editForm.speakerId) : undefined}
+                              onValueChange={(value) => setEditForm(prev => ({ ...prev, speakerId: parseInt(value) }))}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Unassigned" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {speakers.map((speaker) => (
+                                  <SelectItem key={speaker.id} value={String(speaker.id)}>{speaker.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+                        <div>
+                          <label className="text-sm font-medium text-slate-700 mb-2 block">
+                            Original Text
+                          </label>
+                          <Textarea
+                            value={editForm.japaneseText}
+                            onChange={(e) => setEditForm(prev => ({ ...prev, japaneseText: e.target.value }))}
+                            placeholder="Original text..."
+                            className="min-h-[80px]"
+                          />
+                        </div>
+                        {onSplit && subtitle.words && subtitle.words.length > 1 && (
+                          <div>
+                            <label className="text-sm font-medium text-slate-700 mb-2 block">
+                              Split Before Word
+                            </label>
+                            <div className="flex flex-wrap gap-1">
+                              {subtitle.words.slice(1).map((word) => (
+                                <Button
+                                  key={word.start}
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-7 px-2"
+                                  onClick={() => handleSplitBefore(subtitle, word)}
+                                >
+                                  {word.text}
+                                </Button>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                        <div>
+                          <label className="text-sm font-medium text-slate-700 mb-2 block">
+                            {languageName} Translation
+                          </label>
+                          <Textarea
+                            value={editForm.englishText}
+                            onChange={(e) => setEditForm(prev => ({ ...prev, englishText: e.target.value }))}
+                            placeholder={`${languageName} translation...`}
+                            className="min-h-[80px]"
+                          />
+                        </div>
+                        <div className="flex justify-end space-x-2">
+                          <Button variant="outline" onClick={() => setEditingSubtitle(null)}>
+                            Cancel
+                          </Button>
+                          <Button onClick={handleEditSave}>
+                            Save Changes
+                          </Button>
+                        </div>
                       </div>
-                    </div>
-                  </DialogContent>
-                </Dialog>
+                    </DialogContent>
+                  </Dialog>
+                </div>
               </div>
+              <p className="text-sm text-slate-700 mb-1">{subtitle.japaneseText}</p>
+              <p className="text-sm text-slate-900 font-medium">{subtitle.englishText}</p>
+              {glossaryViolations
+                .filter(violation => violation.subtitleId === subtitle.id)
+                .map(violation => (
+                  <p key={violation.sourceTerm} className="flex items-center text-xs text-amber-700 mt-1">
+                    <BookOpen className="w-3 h-3 mr-1" />
+                    Glossary: {violation.sourceTerm} should be "{violation.targetTerm}"
+                  </p>
+                ))}
+              {issues.map((issue, index) => (
+                <p
+                  key={`${issue.rule}-${index}`}
+                  className={`flex items-center text-xs mt-1 ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}`}
+                >
+                  <AlertTriangle className="w-3 h-3 mr-1" />
+                  QC: {issue.message}
+                </p>
+              ))}
             </div>
-            <p className="text-sm text-slate-700 mb-1">{subtitle.japaneseText}</p>
-            <p className="text-sm text-slate-900 font-medium">{subtitle.englishText}</p>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
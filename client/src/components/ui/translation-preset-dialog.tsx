@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus } from 'lucide-react';
+import { Button } from './button';
+import { Input } from './input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from './dialog';
+import { apiRequest } from '@/lib/queryClient';
+
+export interface TranslationPreset {
+  id: number;
+  name: string;
+  honorifics: string;
+  register: string;
+  units: string;
+  names: string;
+  profanity: string;
+}
+
+interface TranslationPresetDialogProps {
+  onCreated: (preset: TranslationPreset) => void;
+}
+
+const POLICY_FIELDS: { key: keyof Omit<TranslationPreset, 'id' | 'name'>; label: string; options: { value: string; label: string }[] }[] = [
+  {
+    key: 'honorifics',
+    label: 'Honorifics',
+    options: [
+      { value: 'keep', label: 'Keep (-san, -senpai)' },
+      { value: 'localize', label: 'Localize' }
+    ]
+  },
+  {
+    key: 'register',
+    label: 'Register',
+    options: [
+      { value: 'neutral', label: 'Neutral' },
+      { value: 'formal', label: 'Formal' },
+      { value: 'casual', label: 'Casual' }
+    ]
+  },
+  {
+    key: 'units',
+    label: 'Units',
+    options: [
+      { value: 'preserve', label: 'Preserve' },
+      { value: 'localize', label: 'Localize' }
+    ]
+  },
+  {
+    key: 'names',
+    label: 'Names',
+    options: [
+      { value: 'preserve', label: 'Preserve' },
+      { value: 'localize', label: 'Localize' }
+    ]
+  },
+  {
+    key: 'profanity',
+    label: 'Profanity',
+    options: [
+      { value: 'keep', label: 'Keep' },
+      { value: 'soften', label: 'Soften' },
+      { value: 'censor', label: 'Censor' }
+    ]
+  }
+];
+
+const DEFAULT_POLICY = {
+  honorifics: 'keep',
+  register: 'neutral',
+  units: 'preserve',
+  names: 'preserve',
+  profanity: 'keep'
+};
+
+export function TranslationPresetDialog({ onCreated }: TranslationPresetDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [policy, setPolicy] = useState(DEFAULT_POLICY);
+  const queryClient = useQueryClient();
+
+  const createPresetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/translation-presets', { name: name.trim(), ...policy });
+      return response.json() as Promise<TranslationPreset>;
+    },
+    onSuccess: (preset) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/translation-presets'] });
+      setOpen(false);
+      setName('');
+      setPolicy(DEFAULT_POLICY);
+      onCreated(preset);
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-10">
+          <Plus className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Translation Style</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Preset name..."
+          />
+          {POLICY_FIELDS.map((field) => (
+            <div key={field.key}>
+              <label className="text-sm font-medium text-slate-700 mb-2 block">{field.label}</label>
+              <Select
+                value={policy[field.key]}
+                onValueChange={(value) => setPolicy(prev => ({ ...prev, [field.key]: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {field.options.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button
+            disabled={!name.trim() || createPresetMutation.isPending}
+            onClick={() => createPresetMutation.mutate()}
+          >
+            Save Preset
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
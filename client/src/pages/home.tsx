@@ -1,20 +1,25 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Languages, Settings, HelpCircle, Plus, History, Clock, Download } from 'lucide-react';
+import { Languages, Settings, HelpCircle, Plus, History, Clock, Download, FileText, AlertTriangle, RotateCcw, X } from 'lucide-react';
 import { FileUpload } from '@/components/ui/file-upload';
 import { AudioWaveform } from '@/components/ui/audio-waveform';
 import { ProcessingProgress } from '@/components/ui/processing-progress';
 import { SubtitlePreview } from '@/components/ui/subtitle-preview';
+import { GlossaryPanel } from '@/components/ui/glossary-panel';
+import { TranslationPresetDialog, type TranslationPreset } from '@/components/ui/translation-preset-dialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useWebSocket } from '@/hooks/use-websocket';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 
 interface AudioFile {
   id: number;
+  projectId: number | null;
+  targetLanguages: string[] | null;
   filename: string;
   originalName: string;
   duration?: number;
@@ -22,6 +27,12 @@ interface AudioFile {
   createdAt: string;
 }
 
+interface GlossaryViolation {
+  subtitleId: number;
+  sourceTerm: string;
+  targetTerm: string;
+}
+
 interface Subtitle {
   id: number;
   audioFileId: number;
@@ -29,8 +40,51 @@ interface Subtitle {
   endTime: number;
   japaneseText: string;
   englishText: string;
+  language: string | null;
+  words: { start: number; end: number; text: string }[] | null;
+  speakerId: number | null;
+  translationStatus: string;
+}
+
+interface QcIssue {
+  subtitleId: number;
+  rule: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+interface Speaker {
+  id: number;
+  name: string;
+  color: string;
 }
 
+interface SubtitleTranslation {
+  subtitleId: number;
+  language: string;
+  text: string;
+}
+
+type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+// Sent with uploads to drive cue re-segmentation
+const READING_SPEED_PRESETS = {
+  broadcast: { label: 'Broadcast (42 chars, 17 CPS)', maxCharsPerLine: 42, maxLines: 2, maxCps: 17 },
+  slow: { label: 'Slow (37 chars, 13 CPS)', maxCharsPerLine: 37, maxLines: 2, maxCps: 13 },
+  fast: { label: 'Fast (42 chars, 20 CPS)', maxCharsPerLine: 42, maxLines: 2, maxCps: 20 }
+};
+
+const LANGUAGE_OPTIONS = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'it', name: 'Italian' }
+];
+
 interface ProcessingJob {
   id: number;
   audioFileId: number;
@@ -38,8 +92,29 @@ interface ProcessingJob {
   progress: number;
   status: string;
   error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ProcessingJobPage {
+  jobs: ProcessingJob[];
+  total: number;
+  page: number;
+  pageSize: number;
 }
 
+const JOB_STATUS_LABELS: Record<string, string> = {
+  queued: 'Queued',
+  transcribing: 'Transcribing...',
+  translating: 'Translating...',
+  segmenting: 'Building subtitles...',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const JOB_HISTORY_PAGE_SIZE = 5;
+
 export default function Home() {
   const [currentAudioFile, setCurrentAudioFile] = useState<AudioFile | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
@@ -48,10 +123,27 @@ export default function Home() {
   const [uploadError, setUploadError] = useState<string>('');
   const [processingStages, setProcessingStages] = useState([
     { id: 'transcription', name: 'Speech Recognition', description: 'Converting audio to text', status: 'pending' as const },
-    { id: 'translation', name: 'Translation', description: 'Translating Japanese to English', status: 'pending' as const },
+    { id: 'translation', name: 'Translation', description: 'Translating foreign-language cues', status: 'pending' as const },
+    { id: 'segmentation', name: 'Segmentation', description: 'Fitting cues to reading speed', status: 'pending' as const },
     { id: 'subtitle_generation', name: 'Subtitle Generation', description: 'Creating subtitle file', status: 'pending' as const }
   ]);
   const [overallProgress, setOverallProgress] = useState(0);
+  const [subtitleFormat, setSubtitleFormat] = useState<SubtitleFormat>('srt');
+  const [showOriginalText, setShowOriginalText] = useState(true);
+  const [karaoke, setKaraoke] = useState(false);
+  const [retranslateProgress, setRetranslateProgress] = useState<number | null>(null);
+  const [asrProvider, setAsrProvider] = useState('openai');
+  const [diarizationProvider, setDiarizationProvider] = useState('none');
+  const [readingSpeed, setReadingSpeed] = useState<keyof typeof READING_SPEED_PRESETS>('broadcast');
+  const [translationProvider, setTranslationProvider] = useState('openai');
+  const [translationQuality, setTranslationQuality] = useState<'standard' | 'high'>('high');
+  const [translationPresetId, setTranslationPresetId] = useState('none');
+  const [targetLanguages, setTargetLanguages] = useState<string[]>(['en']);
+  const [sourceLanguage, setSourceLanguage] = useState('auto');
+  const [previewLanguage, setPreviewLanguage] = useState('en');
+  const [historyPage, setHistoryPage] = useState(1);
+  
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -63,16 +155,98 @@ export default function Home() {
     enabled: true
   });
 
-  const { data: processingJobs = [] } = useQuery({
+  const { data: activeJobPage } = useQuery<ProcessingJobPage>({
     queryKey: ['/api/processing-jobs'],
     enabled: true
   });
+  const processingJobs = activeJobPage?.jobs ?? [];
+
+  const { data: failedJobPage } = useQuery<ProcessingJobPage>({
+    queryKey: ['/api/processing-jobs?status=failed&pageSize=5']
+  });
+  const failedJobs = failedJobPage?.jobs ?? [];
+
+  const { data: jobHistory } = useQuery<ProcessingJobPage>({
+    queryKey: [`/api/processing-jobs?status=history&page=${historyPage}&pageSize=${JOB_HISTORY_PAGE_SIZE}`]
+  });
+  const historyPageCount = jobHistory ? Math.max(1, Math.ceil(jobHistory.total / jobHistory.pageSize)) : 1;
+
+  const { data: translationPresets = [] } = useQuery<TranslationPreset[]>({
+    queryKey: ['/api/translation-presets']
+  });
 
   const { data: subtitles = [] } = useQuery({
     queryKey: ['/api/audio', currentAudioFile?.id, 'subtitles'],
     enabled: !!currentAudioFile
   });
 
+  const { data: glossaryViolations = [] } = useQuery<GlossaryViolation[]>({
+    queryKey: [`/api/audio/${currentAudioFile?.id}/glossary-violations`],
+    enabled: !!currentAudioFile
+  });
+
+  const { data: speakers = [] } = useQuery<Speaker[]>({
+    queryKey: [`/api/audio/${currentAudioFile?.id}/speakers`],
+    enabled: !!currentAudioFile
+  });
+
+  const { data: qcIssues = [] } = useQuery<QcIssue[]>({
+    queryKey: [`/api/audio/${currentAudioFile?.id}/qc?language=${previewLanguage}`],
+    enabled: !!currentAudioFile
+  });
+
+  const { data: trackTranslations = [] } = useQuery<SubtitleTranslation[]>({
+    queryKey: [`/api/audio/${currentAudioFile?.id}/translations?language=${previewLanguage}`],
+    enabled: !!currentAudioFile && previewLanguage !== 'en'
+  });
+
+  const fileLanguages = LANGUAGE_OPTIONS.filter(option => (currentAudioFile?.targetLanguages ?? ['en']).includes(option.code));
+
+  // The preview always shows the selected track in the englishText slot
+  const previewSubtitles = previewLanguage === 'en'
+    ? subtitles
+    : (subtitles as Subtitle[]).map(subtitle => ({
+        ...subtitle,
+        englishText: trackTranslations.find(translation => translation.subtitleId === subtitle.id)?.text ?? '',
+        // Other tracks have no row for a cue whose translation failed
+        translationStatus: trackTranslations.some(translation => translation.subtitleId === subtitle.id && translation.text.trim())
+          ? 'translated'
+          : 'failed'
+      }));
+
+  const invalidateSubtitleData = (audioFileId?: number) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/audio/${audioFileId}/glossary-violations`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/audio/${audioFileId}/speakers`] });
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith(`/api/audio/${audioFileId}/translations`) ||
+        String(query.queryKey[0]).startsWith(`/api/audio/${audioFileId}/qc`)
+    });
+  };
+
+  // Covers the active list, the failed list and the history pages
+  const invalidateProcessingJobs = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/processing-jobs')
+    });
+  };
+
+  // Serverless deployments have no background worker and process queued jobs inside this request;
+  // the regular server answers straight away
+  const runQueuedJobs = () => {
+    apiRequest('POST', '/api/processing-jobs/run')
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: ['/api/recent-files'] });
+        invalidateProcessingJobs();
+      })
+      .catch(error => console.error('Failed to run processing jobs:', error));
+  };
+
+  // Progress of a re-translation started on another file would never finish here, since its messages are ignored
+  useEffect(() => {
+    setPreviewLanguage('en');
+    setRetranslateProgress(null);
+  }, [currentAudioFile?.id]);
+
   // Mutations
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
@@ -83,6 +257,20 @@ export default function Home() {
       
       const formData = new FormData();
       formData.append('audio', file);
+      formData.append('asrProvider', asrProvider);
+      formData.append('diarizationProvider', diarizationProvider);
+      const { maxCharsPerLine, maxLines, maxCps } = READING_SPEED_PRESETS[readingSpeed];
+      formData.append('maxCharsPerLine', String(maxCharsPerLine));
+      formData.append('maxLines', String(maxLines));
+      formData.append('maxCps', String(maxCps));
+      formData.append('translationProvider', translationProvider);
+      // High quality translates neighbouring lines together for context
+      formData.append('translationMode', translationQuality === 'high' ? 'context' : 'segment');
+      if (translationPresetId !== 'none') {
+        formData.append('translationPresetId', translationPresetId);
+      }
+      formData.append('targetLanguages', targetLanguages.join(','));
+      formData.append('sourceLanguage', sourceLanguage);
       
       const response = await apiRequest('POST', '/api/upload', formData);
       if (!response.ok) {
@@ -94,7 +282,8 @@ export default function Home() {
     onSuccess: (data) => {
       setCurrentAudioFile(data.audioFile);
       queryClient.invalidateQueries({ queryKey: ['/api/recent-files'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/processing-jobs'] });
+      invalidateProcessingJobs();
+      runQueuedJobs();
       toast({
         title: "Upload successful!",
         description: "Your audio file is now being processed with AI precision."
@@ -110,6 +299,31 @@ export default function Home() {
     }
   });
 
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('subtitles', file);
+      
+      const response = await apiRequest('POST', '/api/import', formData);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setCurrentAudioFile(data.audioFile);
+      queryClient.invalidateQueries({ queryKey: ['/api/recent-files'] });
+      toast({
+        title: "Import successful!",
+        description: `${data.imported} subtitles imported and ready for editing.`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
   const subtitleEditMutation = useMutation({
     mutationFn: async ({ id, updates }: { id: number; updates: Partial<Subtitle> }) => {
       const response = await apiRequest('PATCH', `/api/subtitles/${id}`, updates);
@@ -117,6 +331,7 @@ export default function Home() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/audio', currentAudioFile?.id, 'subtitles'] });
+      invalidateSubtitleData(currentAudioFile?.id);
       toast({
         title: "Subtitle updated",
         description: "Changes saved successfully"
@@ -124,38 +339,199 @@ export default function Home() {
     }
   });
 
+  const resumeJobMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      const response = await apiRequest('POST', `/api/processing-jobs/${jobId}/resume`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateProcessingJobs();
+      runQueuedJobs();
+      toast({
+        title: "Processing resumed",
+        description: "The job continues from its last completed stage."
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Resume failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const cancelJobMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      const response = await apiRequest('POST', `/api/processing-jobs/${jobId}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateProcessingJobs();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Cancel failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const retryFailedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/audio/${currentAudioFile?.id}/retry-failed`, {
+        provider: translationProvider,
+        mode: translationQuality === 'high' ? 'context' : 'segment',
+        language: previewLanguage
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setRetranslateProgress(0);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Retry failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const speakerMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: number; updates: Partial<Speaker> }) => {
+      const response = await apiRequest('PATCH', `/api/speakers/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/audio/${currentAudioFile?.id}/speakers`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Speaker update failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const splitMutation = useMutation({
+    mutationFn: async ({ id, at }: { id: number; at: number }) => {
+      const response = await apiRequest('POST', `/api/subtitles/${id}/split`, { at: Math.round(at) });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/audio', currentAudioFile?.id, 'subtitles'] });
+      invalidateSubtitleData(currentAudioFile?.id);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Split failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const retranslateMutation = useMutation({
+    mutationFn: async (subtitleIds?: number[]) => {
+      const response = await apiRequest('POST', `/api/audio/${currentAudioFile?.id}/retranslate`, {
+        subtitleIds,
+        provider: translationProvider,
+        mode: translationQuality === 'high' ? 'context' : 'segment',
+        translationPresetId: translationPresetId !== 'none' ? parseInt(translationPresetId) : undefined,
+        language: previewLanguage
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setRetranslateProgress(0);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Re-translation failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
   // WebSocket message handling
   useEffect(() => {
     if (lastMessage) {
+      // Re-translation progress belongs to one file; runs for other files must not drive this view
+      if (lastMessage.type?.startsWith('retranslation-') && lastMessage.audioFileId !== currentAudioFile?.id) {
+        return;
+      }
+
       switch (lastMessage.type) {
         case 'processing-update':
           setOverallProgress(lastMessage.progress || 0);
-          setProcessingStages(prev => prev.map(stage => ({
-            ...stage,
-            status: stage.id === lastMessage.stage ? 'processing' : 
-                   stage.id === 'transcription' && lastMessage.stage !== 'transcription' ? 'completed' :
-                   stage.id === 'translation' && lastMessage.stage === 'subtitle_generation' ? 'completed' :
-                   stage.status
-          })));
+          setProcessingStages(prev => {
+            // Stages run in list order; optional server stages (e.g. diarization) are not listed
+            const currentIndex = prev.findIndex(stage => stage.id === lastMessage.stage);
+            return prev.map((stage, index) => ({
+              ...stage,
+              status: index === currentIndex ? 'processing' :
+                     currentIndex !== -1 && index < currentIndex ? 'completed' :
+                     stage.id === 'transcription' && lastMessage.stage !== 'transcription' ? 'completed' :
+                     stage.status
+            }));
+          });
           break;
         case 'processing-complete':
           setOverallProgress(100);
           setProcessingStages(prev => prev.map(stage => ({ ...stage, status: 'completed' as const })));
           queryClient.invalidateQueries({ queryKey: ['/api/audio', lastMessage.audioFileId, 'subtitles'] });
-          queryClient.invalidateQueries({ queryKey: ['/api/processing-jobs'] });
+          invalidateSubtitleData(lastMessage.audioFileId);
+          invalidateProcessingJobs();
           toast({
             title: "Processing complete!",
             description: "Your subtitles are ready for download."
           });
           break;
+        case 'retranslation-update':
+          setRetranslateProgress(lastMessage.progress || 0);
+          break;
+        case 'retranslation-complete':
+          setRetranslateProgress(null);
+          queryClient.invalidateQueries({ queryKey: ['/api/audio', lastMessage.audioFileId, 'subtitles'] });
+          invalidateSubtitleData(lastMessage.audioFileId);
+          toast({
+            title: "Re-translation complete",
+            description: lastMessage.failed
+              ? `${lastMessage.total - lastMessage.failed} of ${lastMessage.total} subtitles updated.`
+              : `${lastMessage.total} subtitles updated.`
+          });
+          break;
+        case 'retranslation-error':
+          setRetranslateProgress(null);
+          toast({
+            title: "Re-translation failed",
+            description: lastMessage.error || "An error occurred during re-translation",
+            variant: "destructive"
+          });
+          break;
         case 'processing-error':
           setProcessingStages(prev => prev.map(stage => ({ ...stage, status: 'failed' as const })));
+          invalidateProcessingJobs();
           toast({
             title: "Processing failed",
             description: lastMessage.error || "An error occurred during processing",
             variant: "destructive"
           });
           break;
+        case 'processing-cancelled':
+          setOverallProgress(0);
+          setProcessingStages(prev => prev.map(stage => ({ ...stage, status: 'pending' as const })));
+          invalidateProcessingJobs();
+          queryClient.invalidateQueries({ queryKey: ['/api/recent-files'] });
+          toast({
+            title: "Processing cancelled",
+            description: "The job was stopped and its upload removed."
+          });
+          break;
       }
     }
   }, [lastMessage, queryClient, toast]);
@@ -189,20 +565,74 @@ export default function Home() {
     setUploadError('');
   };
 
+  const translationEditMutation = useMutation({
+    mutationFn: async ({ id, text }: { id: number; text: string }) => {
+      const response = await apiRequest('PATCH', `/api/subtitles/${id}/translations/${previewLanguage}`, { text });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSubtitleData(currentAudioFile?.id);
+    }
+  });
+
+  const languagesMutation = useMutation({
+    mutationFn: async (languages: string[]) => {
+      const response = await apiRequest('PUT', `/api/audio/${currentAudioFile?.id}/languages`, { languages });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setCurrentAudioFile(prev => prev ? { ...prev, targetLanguages: data.languages } : prev);
+      if (!data.languages.includes(previewLanguage)) {
+        setPreviewLanguage('en');
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update languages",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const toggleLanguage = (languages: string[], code: string) =>
+    languages.includes(code) ? languages.filter(language => language !== code) : [...languages, code];
+
   const handleSubtitleEdit = (id: number, updates: Partial<Subtitle>) => {
-    subtitleEditMutation.mutate({ id, updates });
+    if (previewLanguage === 'en') {
+      subtitleEditMutation.mutate({ id, updates });
+      return;
+    }
+
+    // Non-English tracks are stored separately from the cue itself
+    const { englishText, ...cueUpdates } = updates;
+    subtitleEditMutation.mutate({ id, updates: cueUpdates });
+    if (englishText !== undefined) {
+      translationEditMutation.mutate({ id, text: englishText });
+    }
   };
 
-  const handleDownloadSRT = async () => {
+  const handleDownload = async () => {
     if (!currentAudioFile) return;
     
     try {
-      const response = await fetch(`/api/audio/${currentAudioFile.id}/download-srt`);
+      const params = new URLSearchParams(
+        subtitleFormat === 'ass'
+          ? { showJapanese: String(showOriginalText), karaoke: String(karaoke) }
+          : { mode: showOriginalText ? 'bilingual' : 'english' }
+      );
+      params.set('language', previewLanguage);
+      const response = await fetch(`/api/audio/${currentAudioFile.id}/download-${subtitleFormat}?${params}`);
+      if (!response.ok) {
+        throw new Error(`Download failed with status ${response.status}`);
+      }
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${currentAudioFile.originalName}.srt`;
+      a.download = previewLanguage === 'en'
+        ? `${currentAudioFile.originalName}.${subtitleFormat}`
+        : `${currentAudioFile.originalName}.${previewLanguage}.${subtitleFormat}`;
       a.click();
       window.URL.revokeObjectURL(url);
     } catch (error) {
@@ -214,7 +644,37 @@ export default function Home() {
     }
   };
 
-  const isProcessing = processingJobs.some(job => job.status === 'processing');
+  const handleDownloadBundle = async () => {
+    if (!currentAudioFile) return;
+
+    try {
+      const params = new URLSearchParams({
+        format: subtitleFormat,
+        mode: showOriginalText ? 'bilingual' : 'english',
+        showJapanese: String(showOriginalText),
+        karaoke: String(karaoke)
+      });
+      const response = await fetch(`/api/audio/${currentAudioFile.id}/download-bundle?${params}`);
+      if (!response.ok) {
+        throw new Error(`Download failed with status ${response.status}`);
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${currentAudioFile.originalName}.subtitles.zip`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: "Failed to download subtitle bundle",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const isProcessing = processingJobs.some(job => job.status !== 'queued');
   const hasSubtitles = subtitles.length > 0;
 
   return (
@@ -284,6 +744,30 @@ export default function Home() {
                     error={uploadError}
                     onClearError={handleClearError}
                   />
+                  <div className="flex items-center justify-center mt-4">
+                    <input
+                      ref={importInputRef}
+                      type="file"
+                      accept=".srt,.vtt,.ass,.ssa"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) {
+                          importMutation.mutate(file);
+                        }
+                        e.target.value = '';
+                      }}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={importMutation.isPending}
+                      onClick={() => importInputRef.current?.click()}
+                    >
+                      <FileText className="w-4 h-4 mr-2" />
+                      {importMutation.isPending ? 'Importing...' : 'Import Subtitle File (SRT, VTT, ASS)'}
+                    </Button>
+                  </div>
                 </CardContent>
               </Card>
             )}
@@ -348,11 +832,24 @@ export default function Home() {
               <Card className="border-0 shadow-xl bg-white/60 backdrop-blur-lg hover-lift">
                 <CardContent className="p-6">
                   <SubtitlePreview
-                    subtitles={subtitles}
+                    subtitles={previewSubtitles}
                     currentTime={currentTime}
                     onTimeSeek={setCurrentTime}
                     onSubtitleEdit={handleSubtitleEdit}
-                    onDownload={handleDownloadSRT}
+                    onDownload={handleDownload}
+                    downloadLabel={subtitleFormat.toUpperCase()}
+                    onRetranslate={(subtitleIds) => retranslateMutation.mutate(subtitleIds)}
+                    onRetryFailed={() => retryFailedMutation.mutate()}
+                    retranslateProgress={retranslateProgress}
+                    glossaryViolations={previewLanguage === 'en' ? glossaryViolations : []}
+                    qcIssues={qcIssues}
+                    languages={fileLanguages}
+                    language={previewLanguage}
+                    onLanguageChange={setPreviewLanguage}
+                    onDownloadBundle={handleDownloadBundle}
+                    onSplit={(id, at) => splitMutation.mutate({ id, at })}
+                    speakers={speakers}
+                    onSpeakerUpdate={(id, updates) => speakerMutation.mutate({ id, updates })}
                   />
                 </CardContent>
               </Card>
@@ -368,7 +865,7 @@ export default function Home() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
-                  {processingJobs.length === 0 ? (
+                  {processingJobs.length === 0 && failedJobs.length === 0 ? (
                     <p className="text-sm text-slate-500 text-center py-4">No active processing jobs</p>
                   ) : (
                     processingJobs.map((job) => (
@@ -378,14 +875,97 @@ export default function Home() {
                             <Clock className="w-4 h-4 text-blue-600" />
                           </div>
                           <div>
-                            <p className="text-sm font-medium text-slate-700">Processing...</p>
+                            <p className="text-sm font-medium text-slate-700">{JOB_STATUS_LABELS[job.status] || job.status}</p>
                             <p className="text-xs text-slate-500">{job.stage}</p>
                           </div>
                         </div>
-                        <span className="text-xs text-slate-500">{job.progress}%</span>
+                        <div className="flex items-center space-x-2">
+                          <span className="text-xs text-slate-500">{job.progress}%</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            title="Cancel job"
+                            onClick={() => cancelJobMutation.mutate(job.id)}
+                            disabled={cancelJobMutation.isPending}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
                       </div>
                     ))
                   )}
+                  {failedJobs.map((job) => (
+                    <div key={job.id} className="flex items-center justify-between p-3 bg-red-50 rounded-lg">
+                      <div className="flex items-center space-x-3 min-w-0">
+                        <div className="w-8 h-8 bg-red-100 rounded-full flex items-center justify-center flex-shrink-0">
+                          <AlertTriangle className="w-4 h-4 text-red-600" />
+                        </div>
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-slate-700">Failed at {job.stage}</p>
+                          <p className="text-xs text-slate-500 truncate" title={job.error}>{job.error}</p>
+                        </div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resumeJobMutation.mutate(job.id)}
+                        disabled={resumeJobMutation.isPending}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Retry
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Job History */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Job History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {!jobHistory || jobHistory.jobs.length === 0 ? (
+                    <p className="text-sm text-slate-500 text-center py-4">No finished jobs</p>
+                  ) : (
+                    jobHistory.jobs.map((job) => (
+                      <div key={job.id} className="flex items-center justify-between p-3 hover:bg-slate-50 rounded-lg">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-slate-700">
+                            {JOB_STATUS_LABELS[job.status] || job.status}
+                            {job.status !== 'completed' && <span className="font-normal text-slate-500"> at {job.stage}</span>}
+                          </p>
+                          <p className="text-xs text-slate-500 truncate" title={job.error}>
+                            {new Date(job.updatedAt).toLocaleString()}{job.error ? ` · ${job.error}` : ''}
+                          </p>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                  {jobHistory && jobHistory.total > jobHistory.pageSize && (
+                    <div className="flex items-center justify-between pt-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setHistoryPage(page => page - 1)}
+                        disabled={historyPage <= 1}
+                      >
+                        Previous
+                      </Button>
+                      <span className="text-xs text-slate-500">Page {historyPage} of {historyPageCount}</span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setHistoryPage(page => page + 1)}
+                        disabled={historyPage >= historyPageCount}
+                      >
+                        Next
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -421,6 +1001,45 @@ export default function Home() {
               </CardContent>
             </Card>
 
+            {/* Languages */}
+            {currentAudioFile && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Languages</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 gap-2">
+                    {LANGUAGE_OPTIONS.map((option) => (
+                      <label key={option.code} className="flex items-center space-x-2 text-sm text-slate-700">
+                        <Checkbox
+                          checked={(currentAudioFile.targetLanguages ?? ['en']).includes(option.code)}
+                          disabled={option.code === 'en' || languagesMutation.isPending}
+                          onCheckedChange={() => languagesMutation.mutate(toggleLanguage(currentAudioFile.targetLanguages ?? ['en'], option.code))}
+                        />
+                        <span>{option.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Glossary */}
+            {currentAudioFile && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Glossary</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <GlossaryPanel
+                    audioFileId={currentAudioFile.id}
+                    projectId={currentAudioFile.projectId}
+                    onProjectChange={(projectId) => setCurrentAudioFile({ ...currentAudioFile, projectId })}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Settings */}
             <Card>
               <CardHeader>
@@ -430,7 +1049,7 @@ export default function Home() {
                 <div className="space-y-4">
                   <div>
                     <label className="text-sm font-medium text-slate-700 mb-2 block">Translation Quality</label>
-                    <Select defaultValue="high">
+                    <Select value={translationQuality} onValueChange={(value) => setTranslationQuality(value as 'standard' | 'high')}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
@@ -441,9 +1060,114 @@ export default function Home() {
                     </Select>
                   </div>
                   
+                  <div>
+                    <label className="text-sm font-medium text-slate-700 mb-2 block">Translation Engine</label>
+                    <Select value={translationProvider} onValueChange={setTranslationProvider}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="openai">OpenAI GPT-4o</SelectItem>
+                        <SelectItem value="google">Google Cloud Translate</SelectItem>
+                        <SelectItem value="deepl">DeepL</SelectItem>
+                        <SelectItem value="local">Local (Offline)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  
+                  <div>
+                    <label className="text-sm font-medium text-slate-700 mb-2 block">Spoken Language</label>
+                    <Select value={sourceLanguage} onValueChange={setSourceLanguage}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Auto-detect (mixed)</SelectItem>
+                        <SelectItem value="ja">Japanese</SelectItem>
+                        {LANGUAGE_OPTIONS.map((option) => (
+                          <SelectItem key={option.code} value={option.code}>{option.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <label className="text-sm font-medium text-slate-700 mb-2 block">Target Languages</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {LANGUAGE_OPTIONS.map((option) => (
+                        <label key={option.code} className="flex items-center space-x-2 text-sm text-slate-700">
+                          <Checkbox
+                            checked={targetLanguages.includes(option.code)}
+                            disabled={option.code === 'en'}
+                            onCheckedChange={() => setTargetLanguages(prev => toggleLanguage(prev, option.code))}
+                          />
+                          <span>{option.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="text-sm font-medium text-slate-700 mb-2 block">Translation Style</label>
+                    <div className="flex items-center space-x-2">
+                      <Select value={translationPresetId} onValueChange={setTranslationPresetId}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Default</SelectItem>
+                          {translationPresets.map((preset) => (
+                            <SelectItem key={preset.id} value={String(preset.id)}>{preset.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <TranslationPresetDialog onCreated={(preset) => setTranslationPresetId(String(preset.id))} />
+                    </div>
+                  </div>
+                  
+                  <div>
+                    <label className="text-sm font-medium text-slate-700 mb-2 block">Speech Recognition</label>
+                    <Select value={asrProvider} onValueChange={setAsrProvider}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="openai">OpenAI Whisper (Cloud)</SelectItem>
+                        <SelectItem value="local">Local Whisper (Offline)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <label className="text-sm font-medium text-slate-700 mb-2 block">Speaker Labels</label>
+                    <Select value={diarizationProvider} onValueChange={setDiarizationProvider}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Off</SelectItem>
+                        <SelectItem value="local">Local Diarization (Offline)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  
+                  <div>
+                    <label className="text-sm font-medium text-slate-700 mb-2 block">Reading Speed</label>
+                    <Select value={readingSpeed} onValueChange={(value) => setReadingSpeed(value as keyof typeof READING_SPEED_PRESETS)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(READING_SPEED_PRESETS).map(([key, preset]) => (
+                          <SelectItem key={key} value={key}>{preset.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   <div>
                     <label className="text-sm font-medium text-slate-700 mb-2 block">Subtitle Format</label>
-                    <Select defaultValue="srt">
+                    <Select value={subtitleFormat} onValueChange={(value) => setSubtitleFormat(value as SubtitleFormat)}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
@@ -457,8 +1181,15 @@ export default function Home() {
                   
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium text-slate-700">Show Original Text</span>
-                    <Switch defaultChecked />
+                    <Switch checked={showOriginalText} onCheckedChange={setShowOriginalText} />
                   </div>
+
+                  {subtitleFormat === 'ass' && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-slate-700">Karaoke Timing</span>
+                      <Switch checked={karaoke} onCheckedChange={setKaraoke} />
+                    </div>
+                  )}
                   
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium text-slate-700">Auto-download</span>
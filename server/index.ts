@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { jobQueue } from "./services/job-queue";
 
 const app = express();
 app.use(express.json());
@@ -66,5 +67,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    // Picks up queued jobs, including ones a previous run of the server left unfinished
+    jobQueue.start();
   });
 })();
@@ -4,9 +4,26 @@ import { WebSocketServer, WebSocket } from "ws";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { storage } from "./storage";
-import { audioProcessor } from "./services/audio-processor";
-import { translationService } from "./services/translation";
+import os from "os";
+import { storage, JOB_STATUSES, ACTIVE_JOB_STATUSES, FINISHED_JOB_STATUSES, isJobStatus, type JobStatus } from "./storage";
+import { insertGlossaryTermSchema, insertProjectSchema, insertTranslationPresetSchema, type AudioFile, type InsertSpeaker, type InsertSubtitle, type ProcessingJob, type Subtitle, type SubtitleWord } from "@shared/schema";
+import { fromZodError } from "zod-validation-error";
+import { audioProcessor, type TranscriptionResult } from "./services/audio-processor";
+import { getAsrProviderNames } from "./services/asr-providers";
+import { getDiarizationProvider, getDiarizationProviderNames, assignSpeakers, SPEAKER_COLORS, type SpeakerTurn } from "./services/diarization-providers";
+import { getTranslationProviderNames, getTargetLanguageCodes } from "./services/translation-providers";
+import { translationService, type CueTranslation, type SourceText, type TranslationMode, type TranslationOptions } from "./services/translation";
+import { languageDetector } from "./services/language-detector";
+import { subtitleParser } from "./services/subtitle-parser";
+import { glossaryService } from "./services/glossary";
+import { subtitleQcService } from "./services/subtitle-qc";
+import { translationMemoryService } from "./services/translation-memory";
+import { translationPolicyService, type TranslationPolicy } from "./services/translation-policy";
+import { subtitleFormatter, type VTTCueSettings, type ASSStyle, type TextModeOptions } from "./services/subtitle-formatter";
+import { createZipArchive } from "./services/zip-archive";
+import { cueSplitter, type CueSplit } from "./services/cue-splitter";
+import { cueSegmenter, DEFAULT_READABILITY_LIMITS, type DraftCue, type ReadabilityLimits } from "./services/cue-segmenter";
+import { jobQueue, JobDeadlineError } from "./services/job-queue";
 
 interface MulterRequest extends Request {
   file?: Express.Multer.File;
@@ -29,6 +46,24 @@ const upload = multer({
   }
 });
 
+const subtitleUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB limit
+  },
+  fileFilter: (req: any, file: any, cb: any) => {
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (['.srt', '.vtt', '.ass', '.ssa'].includes(extension)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only SRT, VTT and ASS files are allowed.'));
+    }
+  }
+});
+
+// How long one POST /api/processing-jobs/run may spend on jobs, below typical serverless time limits
+const JOB_DRAIN_BUDGET_MS = Number(process.env.JOB_DRAIN_BUDGET_MS) || 50000;
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
@@ -54,6 +89,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   };
 
+  jobQueue.setHandler((job, signal) => processAudioFile(job, broadcast, signal));
+
   // Upload audio file with error handling
   app.post('/api/upload', (req: MulterRequest, res, next) => {
     upload.single('audio')(req, res, (err) => {
@@ -79,135 +116,1067 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log('File uploaded successfully:', req.file.filename);
 
+      const asrProvider = req.body.asrProvider || undefined;
+      if (asrProvider && !getAsrProviderNames().includes(asrProvider)) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: `Unknown speech recognition provider: ${asrProvider}` });
+      }
+
+      const translationProvider = req.body.translationProvider || undefined;
+      if (translationProvider && !getTranslationProviderNames().includes(translationProvider)) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: `Unknown translation provider: ${translationProvider}` });
+      }
+
+      const diarizationProvider = req.body.diarizationProvider || undefined;
+      if (diarizationProvider && diarizationProvider !== 'none' && !getDiarizationProviderNames().includes(diarizationProvider)) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: `Unknown diarization provider: ${diarizationProvider}` });
+      }
+
+      const projectId = req.body.projectId ? parseInt(req.body.projectId) : null;
+      if (projectId !== null && !(await storage.getProject(projectId))) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: 'Project not found' });
+      }
+
+      const translationMode = req.body.translationMode || undefined;
+      if (translationMode && !['segment', 'context'].includes(translationMode)) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: 'Invalid translation mode. Must be segment or context.' });
+      }
+
+      const sourceLanguage = req.body.sourceLanguage || 'auto';
+      if (sourceLanguage !== 'auto' && !['ja', ...getTargetLanguageCodes()].includes(sourceLanguage)) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: `Unsupported source language: ${sourceLanguage}` });
+      }
+
+      let targetLanguages: string[];
+      try {
+        targetLanguages = parseTargetLanguages(req.body.targetLanguages);
+      } catch (languageError) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: languageError instanceof Error ? languageError.message : 'Invalid target languages' });
+      }
+
+      const readability = parseReadabilityLimits(req.body);
+      const readabilityError = cueSegmenter.validateLimits(readability);
+      if (readabilityError) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: readabilityError });
+      }
+
+      const translationPresetId = req.body.translationPresetId ? parseInt(req.body.translationPresetId) : null;
+      if (translationPresetId !== null && !(await storage.getTranslationPreset(translationPresetId))) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: 'Translation preset not found' });
+      }
+
+      // Duration is stored in whole seconds, rounded up so cue end times near the end stay valid
+      let duration: number | null = null;
+      try {
+        duration = Math.ceil(await audioProcessor.getAudioDuration(req.file.path));
+      } catch (durationError) {
+        console.warn('Failed to detect audio duration:', durationError);
+      }
+
       const audioFile = await storage.createAudioFile({
         filename: req.file.filename,
         originalName: req.file.originalname,
+        projectId,
+        translationPresetId,
+        targetLanguages,
+        duration,
         status: 'uploaded'
       });
 
       console.log('Audio file created in database:', audioFile.id);
 
-      // Start processing job
+      // Queue the processing job; the worker picks it up even if this process restarts first
+      const options: ProcessingOptions = { asrProvider, translationProvider, translationMode, sourceLanguage, diarizationProvider, readability, uploadHost: os.hostname() };
       const job = await storage.createProcessingJob({
         audioFileId: audioFile.id,
         stage: 'transcription',
         progress: 0,
-        status: 'pending'
+        status: 'queued',
+        filePath: req.file.path,
+        options: { ...options }
       });
 
-      console.log('Processing job created:', job.id);
+      console.log('Processing job queued:', job.id);
+      jobQueue.notify();
+
+      res.json({ audioFile, job });
+    } catch (error) {
+      console.error('Upload error:', error);
+      res.status(500).json({ error: 'Failed to upload file' });
+    }
+  });
+
+  // Import an existing subtitle file as an editable project
+  app.post('/api/import', (req: MulterRequest, res, next) => {
+    subtitleUpload.single('subtitles')(req, res, (err) => {
+      if (err) {
+        console.error('Multer error:', err);
+        if (err.code === 'LIMIT_FILE_SIZE') {
+          return res.status(400).json({ error: 'File too large. Maximum size is 10MB.' });
+        }
+        return res.status(400).json({ error: err.message });
+      }
+      next();
+    });
+  }, async (req: MulterRequest, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    let cues;
+    try {
+      const content = subtitleParser.decode(req.file.buffer);
+      const format = subtitleParser.detectFormat(req.file.originalname, content);
+      cues = subtitleParser.parse(content, format);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to parse subtitle file' });
+    }
+
+    try {
+      // Attach to an existing record when given, otherwise start a new project without audio
+      let audioFile;
+      if (req.body.audioFileId) {
+        audioFile = await storage.getAudioFile(parseInt(req.body.audioFileId));
+        if (!audioFile) {
+          return res.status(404).json({ error: 'Audio file not found' });
+        }
+      } else {
+        audioFile = await storage.createAudioFile({
+          filename: req.file.originalname,
+          originalName: path.parse(req.file.originalname).name,
+          status: 'imported'
+        });
+      }
+
+      // Every cue is prepared before anything is deleted, so a bad file leaves the old subtitles intact
+      const durationMs = audioFile.duration ? audioFile.duration * 1000 : 0;
+      const rows: InsertSubtitle[] = cues
+        .filter(cue => !durationMs || cue.startTime < durationMs)
+        .map(cue => {
+          const [startTime, endTime] = clampToDuration(cue.startTime, cue.endTime, durationMs);
+          return {
+            audioFileId: audioFile.id,
+            ...cue,
+            startTime,
+            endTime,
+            language: cue.japaneseText ? languageDetector.detect(cue.japaneseText) : null
+          };
+        });
+
+      // Imported cues carry no diarization, so the old speakers and translation tracks go with the old cues
+      const imported = (await storage.replaceSubtitles(audioFile.id, rows)).length;
+
+      res.json({ audioFile, imported });
+    } catch (error) {
+      console.error('Import error:', error);
+      res.status(500).json({ error: 'Failed to import subtitle file' });
+    }
+  });
+
+  // Get audio file details
+  app.get('/api/audio/:id', async (req, res) => {
+    try {
+      const audioFile = await storage.getAudioFile(parseInt(req.params.id));
+      if (!audioFile) {
+        return res.status(404).json({ error: 'Audio file not found' });
+      }
+      res.json(audioFile);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get audio file' });
+    }
+  });
+
+  // Get subtitles for audio file
+  app.get('/api/audio/:id/subtitles', async (req, res) => {
+    try {
+      const subtitles = await storage.getSubtitlesByAudioFile(parseInt(req.params.id));
+      res.json(subtitles);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get subtitles' });
+    }
+  });
+
+  // Update subtitle
+  app.patch('/api/subtitles/:id', async (req, res) => {
+    try {
+      const { japaneseText, englishText, startTime, endTime, speakerId } = req.body;
+      const subtitle = await storage.getSubtitle(parseInt(req.params.id));
+      if (!subtitle) {
+        return res.status(404).json({ error: 'Subtitle not found' });
+      }
+
+      // Reassigning a cue is limited to the speakers of its own file
+      if (speakerId !== undefined && speakerId !== null) {
+        const speaker = typeof speakerId === 'number' ? await storage.getSpeaker(speakerId) : undefined;
+        if (!speaker || speaker.audioFileId !== subtitle.audioFileId) {
+          return res.status(400).json({ error: 'Speaker not found for this audio file' });
+        }
+      }
 
-      // Start processing asynchronously
-      processAudioFile(audioFile.id, req.file.path, broadcast);
+      if (startTime !== undefined || endTime !== undefined) {
+        const newStart = startTime ?? subtitle.startTime;
+        const newEnd = endTime ?? subtitle.endTime;
+        if (typeof newStart !== 'number' || typeof newEnd !== 'number' || newStart < 0 || newEnd < newStart) {
+          return res.status(400).json({ error: 'Invalid subtitle timing' });
+        }
+
+        const audioFile = await storage.getAudioFile(subtitle.audioFileId);
+        if (audioFile?.duration && newEnd > audioFile.duration * 1000) {
+          return res.status(400).json({ error: 'Subtitle end time exceeds the audio duration' });
+        }
+      }
+
+      // Word timings no longer describe rewritten text, and are trimmed to a retimed cue
+      let words = subtitle.words;
+      if (typeof japaneseText === 'string' && japaneseText !== subtitle.japaneseText) {
+        words = null;
+      } else if (words) {
+        words = wordsWithin(words, startTime ?? subtitle.startTime, endTime ?? subtitle.endTime);
+      }
+
+      await storage.updateSubtitle(subtitle.id, {
+        japaneseText,
+        englishText,
+        startTime,
+        endTime,
+        words,
+        speakerId,
+        // A hand-written translation resolves a failed cue
+        ...(typeof englishText === 'string' && englishText.trim() ? { translationStatus: 'translated' } : {})
+      });
+
+      // Human corrections are remembered so later files reuse them; resaving the machine text is not one
+      const sourceText = typeof japaneseText === 'string' ? japaneseText : subtitle.japaneseText;
+      const sourceLang = subtitle.language ?? 'ja';
+      if (typeof englishText === 'string' && englishText !== subtitle.englishText && sourceText.trim() && sourceLang !== 'en') {
+        await translationMemoryService.remember(sourceText, englishText, sourceLang, 'en', 'human');
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update subtitle' });
+    }
+  });
+
+  // Split a cue in two at a time inside it, snapped to a word boundary when word timings exist
+  app.post('/api/subtitles/:id/split', async (req, res) => {
+    try {
+      const subtitle = await storage.getSubtitle(parseInt(req.params.id));
+      if (!subtitle) {
+        return res.status(404).json({ error: 'Subtitle not found' });
+      }
+
+      const { at } = req.body;
+      if (typeof at !== 'number') {
+        return res.status(400).json({ error: 'Split time is required' });
+      }
+
+      let split: CueSplit;
+      try {
+        split = cueSplitter.split(subtitle, at);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid split point' });
+      }
+
+      const [first, second] = split.parts;
+      await storage.updateSubtitle(subtitle.id, first);
+      const created = await storage.createSubtitle({
+        audioFileId: subtitle.audioFileId,
+        ...second,
+        language: subtitle.language,
+        speakerId: subtitle.speakerId,
+        translationStatus: subtitle.translationStatus
+      });
+
+      // Other language tracks are cut at the same proportion as the English text
+      const translations = await storage.getSubtitleTranslationsByAudioFile(subtitle.audioFileId);
+      for (const translation of translations.filter(t => t.subtitleId === subtitle.id)) {
+        const [firstText, secondText] = cueSplitter.splitText(translation.text, split.ratio);
+        await storage.upsertSubtitleTranslation({ subtitleId: subtitle.id, language: translation.language, text: firstText });
+        await storage.upsertSubtitleTranslation({ subtitleId: created.id, language: translation.language, text: secondText });
+      }
+
+      res.json({ subtitles: [{ ...subtitle, ...first }, created] });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to split subtitle' });
+    }
+  });
+
+  // Speakers found by diarization
+  app.get('/api/audio/:id/speakers', async (req, res) => {
+    try {
+      const speakers = await storage.getSpeakersByAudioFile(parseInt(req.params.id));
+      res.json(speakers);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get speakers' });
+    }
+  });
+
+  // Rename or recolor a speaker
+  app.patch('/api/speakers/:id', async (req, res) => {
+    try {
+      const speaker = await storage.getSpeaker(parseInt(req.params.id));
+      if (!speaker) {
+        return res.status(404).json({ error: 'Speaker not found' });
+      }
+
+      const { name, color } = req.body;
+      if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+        return res.status(400).json({ error: 'Speaker name cannot be empty' });
+      }
+      if (color !== undefined && (typeof color !== 'string' || !/^#[0-9a-f]{6}$/i.test(color))) {
+        return res.status(400).json({ error: 'Speaker color must be a #RRGGBB value' });
+      }
+
+      await storage.updateSpeaker(speaker.id, {
+        ...(name !== undefined ? { name: name.trim() } : {}),
+        ...(color !== undefined ? { color } : {})
+      });
+      res.json(await storage.getSpeaker(speaker.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update speaker' });
+    }
+  });
+
+  // Additional language tracks for a file
+  app.get('/api/audio/:id/translations', async (req, res) => {
+    try {
+      const language = typeof req.query.language === 'string' ? req.query.language : undefined;
+      const translations = await storage.getSubtitleTranslationsByAudioFile(parseInt(req.params.id), language);
+      res.json(translations);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get translations' });
+    }
+  });
+
+  app.put('/api/audio/:id/languages', async (req, res) => {
+    try {
+      const audioFileId = parseInt(req.params.id);
+      const audioFile = await storage.getAudioFile(audioFileId);
+      if (!audioFile) {
+        return res.status(404).json({ error: 'Audio file not found' });
+      }
+
+      let languages: string[];
+      try {
+        languages = parseTargetLanguages(req.body.languages);
+      } catch (languageError) {
+        return res.status(400).json({ error: languageError instanceof Error ? languageError.message : 'Invalid target languages' });
+      }
+
+      const previous = getFileLanguages(audioFile);
+      await storage.updateAudioFileTargetLanguages(audioFileId, languages);
+
+      for (const language of previous.filter(language => !languages.includes(language))) {
+        await storage.deleteSubtitleTranslationsByAudioFile(audioFileId, language);
+      }
+
+      // Translate newly added tracks in the background
+      const added = languages.filter(language => !previous.includes(language));
+      const subtitles = (await storage.getSubtitlesByAudioFile(audioFileId))
+        .filter(subtitle => subtitle.japaneseText.trim().length > 0);
+      if (subtitles.length > 0 && added.length > 0) {
+        const policy = await loadTranslationPolicy(audioFile.translationPresetId);
+        (async () => {
+          for (const language of added) {
+            await retranslateSubtitles(audioFileId, subtitles, broadcast, { policy }, language);
+          }
+        })().catch(error => {
+          // Nothing awaits this run, so a rejection would otherwise go unhandled
+          console.error('Background track translation error:', error);
+          broadcast({
+            type: 'retranslation-error',
+            audioFileId,
+            error: error instanceof Error ? error.message : 'Unknown re-translation error'
+          });
+        });
+      }
+
+      res.json({ languages, added });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update languages' });
+    }
+  });
+
+  app.patch('/api/subtitles/:id/translations/:language', async (req, res) => {
+    try {
+      const subtitle = await storage.getSubtitle(parseInt(req.params.id));
+      if (!subtitle) {
+        return res.status(404).json({ error: 'Subtitle not found' });
+      }
+
+      const { language } = req.params;
+      const { text } = req.body;
+      if (typeof text !== 'string') {
+        return res.status(400).json({ error: 'text is required' });
+      }
+
+      const audioFile = await storage.getAudioFile(subtitle.audioFileId);
+      if (!audioFile || language === 'en' || !getFileLanguages(audioFile).includes(language)) {
+        return res.status(400).json({ error: `Audio file has no ${language} track` });
+      }
+
+      const stored = (await storage.getSubtitleTranslationsByAudioFile(subtitle.audioFileId, language))
+        .find(translation => translation.subtitleId === subtitle.id);
+      const translation = await storage.upsertSubtitleTranslation({ subtitleId: subtitle.id, language, text });
+
+      // Only an actual edit counts as a human correction
+      const sourceLang = subtitle.language ?? 'ja';
+      if (text !== stored?.text && subtitle.japaneseText.trim() && sourceLang !== language) {
+        await translationMemoryService.remember(subtitle.japaneseText, text, sourceLang, language, 'human');
+      }
+      res.json(translation);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update translation' });
+    }
+  });
+
+  // Close translation memory entries for a source text, offered to editors; only exact matches are
+  // ever applied automatically
+  app.get('/api/translation-memory/suggestions', async (req, res) => {
+    const text = typeof req.query.text === 'string' ? req.query.text : '';
+    if (!text.trim()) {
+      return res.status(400).json({ error: 'text is required' });
+    }
+    const sourceLang = typeof req.query.sourceLang === 'string' && req.query.sourceLang ? req.query.sourceLang : 'ja';
+    const targetLang = typeof req.query.targetLang === 'string' && req.query.targetLang ? req.query.targetLang : 'en';
+
+    try {
+      res.json(await translationMemoryService.suggest(text, sourceLang, targetLang));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get translation memory suggestions' });
+    }
+  });
+
+  // Re-translate stored subtitles without re-transcribing
+  app.post('/api/audio/:id/retranslate', async (req, res) => {
+    try {
+      const audioFileId = parseInt(req.params.id);
+      const audioFile = await storage.getAudioFile(audioFileId);
+      if (!audioFile) {
+        return res.status(404).json({ error: 'Audio file not found' });
+      }
+
+      const { subtitleIds, startTime, endTime, provider, mode, translationPresetId, language = 'en' } = req.body || {};
+      if (provider !== undefined && !getTranslationProviderNames().includes(provider)) {
+        return res.status(400).json({ error: `Unknown translation provider: ${provider}` });
+      }
+      if (mode !== undefined && !['segment', 'context'].includes(mode)) {
+        return res.status(400).json({ error: 'Invalid translation mode. Must be segment or context.' });
+      }
+      if (!getFileLanguages(audioFile).includes(language)) {
+        return res.status(400).json({ error: `Audio file has no ${language} track` });
+      }
+      if (subtitleIds !== undefined && (!Array.isArray(subtitleIds) || subtitleIds.some((id: unknown) => typeof id !== 'number'))) {
+        return res.status(400).json({ error: 'subtitleIds must be an array of numbers' });
+      }
+
+      // An explicit preset overrides the one chosen at upload
+      const presetId = translationPresetId !== undefined ? translationPresetId : audioFile.translationPresetId;
+      if (presetId != null && (typeof presetId !== 'number' || !(await storage.getTranslationPreset(presetId)))) {
+        return res.status(400).json({ error: 'Translation preset not found' });
+      }
+      const policy = await loadTranslationPolicy(presetId);
+
+      const subtitles = (await storage.getSubtitlesByAudioFile(audioFileId)).filter(subtitle => {
+        if (Array.isArray(subtitleIds) && !subtitleIds.includes(subtitle.id)) return false;
+        if (typeof startTime === 'number' && subtitle.endTime <= startTime) return false;
+        if (typeof endTime === 'number' && subtitle.startTime >= endTime) return false;
+        return subtitle.japaneseText.trim().length > 0;
+      });
+
+      if (subtitles.length === 0) {
+        return res.status(400).json({ error: 'No subtitles with Japanese text found in the selected range' });
+      }
+
+      // Run asynchronously and report progress over the socket; skip the memory so a fresh translation is produced
+      retranslateSubtitles(audioFileId, subtitles, broadcast, { provider, mode, policy, useMemory: false }, language);
+
+      res.json({ success: true, total: subtitles.length });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to start re-translation' });
+    }
+  });
+
+  // Re-attempt only the cues whose translation failed; successful cues are left untouched
+  app.post('/api/audio/:id/retry-failed', async (req, res) => {
+    try {
+      const audioFileId = parseInt(req.params.id);
+      const audioFile = await storage.getAudioFile(audioFileId);
+      if (!audioFile) {
+        return res.status(404).json({ error: 'Audio file not found' });
+      }
+
+      const { provider, mode, language = 'en' } = req.body || {};
+      if (provider !== undefined && !getTranslationProviderNames().includes(provider)) {
+        return res.status(400).json({ error: `Unknown translation provider: ${provider}` });
+      }
+      if (mode !== undefined && !['segment', 'context'].includes(mode)) {
+        return res.status(400).json({ error: 'Invalid translation mode. Must be segment or context.' });
+      }
+      if (!getFileLanguages(audioFile).includes(language)) {
+        return res.status(400).json({ error: `Audio file has no ${language} track` });
+      }
+
+      const subtitles = await getFailedSubtitles(audioFileId, language);
+      if (subtitles.length === 0) {
+        return res.status(400).json({ error: 'No failed translations to retry' });
+      }
+
+      const policy = await loadTranslationPolicy(audioFile.translationPresetId);
+      retranslateSubtitles(audioFileId, subtitles, broadcast, { provider, mode, policy }, language);
+
+      res.json({ success: true, total: subtitles.length });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to start retry' });
+    }
+  });
+
+  // Download SRT file
+  app.get('/api/audio/:id/download-srt', async (req, res) => {
+    let textMode: TextModeOptions;
+    try {
+      textMode = parseTextMode(req.query);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid text mode' });
+    }
+
+    try {
+      const audioFile = await storage.getAudioFile(parseInt(req.params.id));
+      if (!audioFile) {
+        return res.status(404).json({ error: 'Audio file not found' });
+      }
+
+      const language = typeof req.query.language === 'string' ? req.query.language : 'en';
+      if (!getFileLanguages(audioFile).includes(language)) {
+        return res.status(400).json({ error: `Audio file has no ${language} track` });
+      }
+
+      const subtitles = await getLanguageTrack(audioFile.id, language);
+      const speakerNames = await getSpeakerNames(audioFile.id);
+      const srtContent = subtitleFormatter.generateSRT(subtitles, { ...textMode, speakerNames });
+
+      res.setHeader('Content-Type', 'text/plain');
+      res.setHeader('Content-Disposition', `attachment; filename="${trackFilename(audioFile, language, 'srt')}"`);
+      res.send(srtContent);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to generate SRT file' });
+    }
+  });
+
+  // Download WebVTT file
+  app.get('/api/audio/:id/download-vtt', async (req, res) => {
+    let cueSettings: VTTCueSettings | undefined;
+    let textMode: TextModeOptions;
+    try {
+      cueSettings = parseVTTCueSettings(req.query);
+      textMode = parseTextMode(req.query);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid cue settings' });
+    }
+
+    try {
+      const audioFile = await storage.getAudioFile(parseInt(req.params.id));
+      if (!audioFile) {
+        return res.status(404).json({ error: 'Audio file not found' });
+      }
+
+      const language = typeof req.query.language === 'string' ? req.query.language : 'en';
+      if (!getFileLanguages(audioFile).includes(language)) {
+        return res.status(400).json({ error: `Audio file has no ${language} track` });
+      }
+
+      const subtitles = await getLanguageTrack(audioFile.id, language);
+      const notes = [`Source: ${audioFile.originalName}`];
+      if (typeof req.query.note === 'string') {
+        notes.push(req.query.note);
+      }
+
+      const speakerNames = await getSpeakerNames(audioFile.id);
+      const vttContent = subtitleFormatter.generateVTT(subtitles, { ...textMode, cueSettings, notes, speakerNames });
+
+      res.setHeader('Content-Type', 'text/vtt; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${trackFilename(audioFile, language, 'vtt')}"`);
+      res.send(vttContent);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to generate WebVTT file' });
+    }
+  });
+
+  // Download ASS file with stacked Japanese/English styles
+  app.get('/api/audio/:id/download-ass', async (req, res) => {
+    let japaneseStyle: Partial<ASSStyle>;
+    let englishStyle: Partial<ASSStyle>;
+    try {
+      japaneseStyle = parseASSStyle(req.query, 'ja');
+      englishStyle = parseASSStyle(req.query, 'en');
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid style settings' });
+    }
+
+    try {
+      const audioFile = await storage.getAudioFile(parseInt(req.params.id));
+      if (!audioFile) {
+        return res.status(404).json({ error: 'Audio file not found' });
+      }
+
+      const language = typeof req.query.language === 'string' ? req.query.language : 'en';
+      if (!getFileLanguages(audioFile).includes(language)) {
+        return res.status(400).json({ error: `Audio file has no ${language} track` });
+      }
+
+      const subtitles = await getLanguageTrack(audioFile.id, language);
+      const assContent = subtitleFormatter.generateASS(subtitles, {
+        title: audioFile.originalName,
+        japaneseStyle,
+        englishStyle,
+        showJapanese: req.query.showJapanese !== 'false',
+        karaoke: req.query.karaoke === 'true',
+        speakerNames: await getSpeakerNames(audioFile.id)
+      });
+
+      res.setHeader('Content-Type', 'text/x-ssa; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${trackFilename(audioFile, language, 'ass')}"`);
+      res.send(assContent);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to generate ASS file' });
+    }
+  });
+
+  // Download every language track as one zip archive
+  app.get('/api/audio/:id/download-bundle', async (req, res) => {
+    const format = typeof req.query.format === 'string' ? req.query.format : 'srt';
+    if (!['srt', 'vtt', 'ass'].includes(format)) {
+      return res.status(400).json({ error: 'Invalid format. Must be srt, vtt or ass.' });
+    }
+
+    let textMode: TextModeOptions;
+    try {
+      textMode = parseTextMode(req.query);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid text mode' });
+    }
+
+    try {
+      const audioFile = await storage.getAudioFile(parseInt(req.params.id));
+      if (!audioFile) {
+        return res.status(404).json({ error: 'Audio file not found' });
+      }
+
+      const speakerNames = await getSpeakerNames(audioFile.id);
+      const entries = [];
+      for (const language of getFileLanguages(audioFile)) {
+        const subtitles = await getLanguageTrack(audioFile.id, language);
+        const content = format === 'srt'
+          ? subtitleFormatter.generateSRT(subtitles, { ...textMode, speakerNames })
+          : format === 'vtt'
+            ? subtitleFormatter.generateVTT(subtitles, { ...textMode, speakerNames, notes: [`Source: ${audioFile.originalName}`, `Language: ${language}`] })
+            : subtitleFormatter.generateASS(subtitles, {
+                title: audioFile.originalName,
+                showJapanese: req.query.showJapanese !== 'false',
+                karaoke: req.query.karaoke === 'true',
+                speakerNames
+              });
+        entries.push({ name: trackFilename(audioFile, language, format), content });
+      }
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${audioFile.originalName}.subtitles.zip"`);
+      res.send(createZipArchive(entries));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to generate subtitle bundle' });
+    }
+  });
+
+  // Projects group audio files that share a glossary
+  app.get('/api/projects', async (req, res) => {
+    try {
+      const projects = await storage.getProjects();
+      res.json(projects);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get projects' });
+    }
+  });
+
+  app.post('/api/projects', async (req, res) => {
+    const parsed = insertProjectSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    try {
+      const project = await storage.createProject(parsed.data);
+      res.json(project);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to create project' });
+    }
+  });
+
+  app.put('/api/audio/:id/project', async (req, res) => {
+    try {
+      const audioFileId = parseInt(req.params.id);
+      if (!(await storage.getAudioFile(audioFileId))) {
+        return res.status(404).json({ error: 'Audio file not found' });
+      }
+
+      const projectId = req.body.projectId ?? null;
+      if (projectId !== null && (typeof projectId !== 'number' || !(await storage.getProject(projectId)))) {
+        return res.status(400).json({ error: 'Project not found' });
+      }
+
+      await storage.updateAudioFileProject(audioFileId, projectId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update audio file project' });
+    }
+  });
+
+  // Glossary terms that apply to an audio file, including its project's terms
+  app.get('/api/audio/:id/glossary', async (req, res) => {
+    try {
+      const terms = await storage.getGlossaryTermsForAudioFile(parseInt(req.params.id));
+      res.json(terms);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get glossary' });
+    }
+  });
+
+  app.get('/api/projects/:id/glossary', async (req, res) => {
+    try {
+      const terms = await storage.getGlossaryTermsByProject(parseInt(req.params.id));
+      res.json(terms);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get glossary' });
+    }
+  });
+
+  app.post('/api/glossary-terms', async (req, res) => {
+    const parsed = insertGlossaryTermSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+    if (parsed.data.projectId == null && parsed.data.audioFileId == null) {
+      return res.status(400).json({ error: 'A glossary term must belong to a project or an audio file' });
+    }
+    if (!parsed.data.sourceTerm.trim() || !parsed.data.targetTerm.trim()) {
+      return res.status(400).json({ error: 'Source and target terms cannot be empty' });
+    }
+
+    try {
+      const term = await storage.createGlossaryTerm({
+        ...parsed.data,
+        sourceTerm: parsed.data.sourceTerm.trim(),
+        targetTerm: parsed.data.targetTerm.trim()
+      });
+      res.json(term);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to create glossary term' });
+    }
+  });
+
+  app.patch('/api/glossary-terms/:id', async (req, res) => {
+    const parsed = insertGlossaryTermSchema
+      .pick({ sourceTerm: true, targetTerm: true, notes: true })
+      .partial()
+      .safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const { sourceTerm, targetTerm, notes } = parsed.data;
+    if ((sourceTerm !== undefined && !sourceTerm.trim()) || (targetTerm !== undefined && !targetTerm.trim())) {
+      return res.status(400).json({ error: 'Source and target terms cannot be empty' });
+    }
+
+    // Only fields present in the body are written, so omitted ones keep their values
+    const updates = Object.fromEntries(
+      Object.entries({ sourceTerm: sourceTerm?.trim(), targetTerm: targetTerm?.trim(), notes })
+        .filter(([, value]) => value !== undefined)
+    );
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({ error: 'No glossary term fields to update' });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await storage.getGlossaryTerm(id))) {
+        return res.status(404).json({ error: 'Glossary term not found' });
+      }
+
+      await storage.updateGlossaryTerm(id, updates);
+      res.json(await storage.getGlossaryTerm(id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update glossary term' });
+    }
+  });
+
+  app.delete('/api/glossary-terms/:id', async (req, res) => {
+    try {
+      await storage.deleteGlossaryTerm(parseInt(req.params.id));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete glossary term' });
+    }
+  });
+
+  // Report cues whose translation does not use the required glossary rendering
+  app.get('/api/audio/:id/glossary-violations', async (req, res) => {
+    try {
+      const audioFileId = parseInt(req.params.id);
+      const [subtitles, terms] = await Promise.all([
+        storage.getSubtitlesByAudioFile(audioFileId),
+        storage.getGlossaryTermsForAudioFile(audioFileId)
+      ]);
+      res.json(glossaryService.findViolations(subtitles, terms));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to check glossary' });
+    }
+  });
+
+  // Quality-check report for one language track; readability limits and frameRate can be overridden
+  app.get('/api/audio/:id/qc', async (req, res) => {
+    const limits = parseReadabilityLimits(req.query);
+    const limitsError = cueSegmenter.validateLimits(limits);
+    if (limitsError) {
+      return res.status(400).json({ error: limitsError });
+    }
+
+    const frameRate = req.query.frameRate ? Number(req.query.frameRate) : undefined;
+    if (frameRate !== undefined && !(frameRate > 0)) {
+      return res.status(400).json({ error: 'frameRate must be a positive number' });
+    }
+
+    try {
+      const audioFile = await storage.getAudioFile(parseInt(req.params.id));
+      if (!audioFile) {
+        return res.status(404).json({ error: 'Audio file not found' });
+      }
+
+      const language = typeof req.query.language === 'string' ? req.query.language : 'en';
+      if (!getFileLanguages(audioFile).includes(language)) {
+        return res.status(400).json({ error: `Audio file has no ${language} track` });
+      }
+
+      const subtitles = await getLanguageTrack(audioFile.id, language);
+      res.json(subtitleQcService.lint(subtitles, { limits, frameRate, language }));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to run quality check' });
+    }
+  });
+
+  // Translation style presets
+  app.get('/api/translation-presets', async (req, res) => {
+    try {
+      const presets = await storage.getTranslationPresets();
+      res.json(presets);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get translation presets' });
+    }
+  });
+
+  app.post('/api/translation-presets', async (req, res) => {
+    const parsed = insertTranslationPresetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const policyError = translationPolicyService.validate(parsed.data as Partial<TranslationPolicy>);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
+
+    try {
+      const preset = await storage.createTranslationPreset(parsed.data);
+      res.json(preset);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to create translation preset' });
+    }
+  });
+
+  app.patch('/api/translation-presets/:id', async (req, res) => {
+    const parsed = insertTranslationPresetSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    const policyError = translationPolicyService.validate(parsed.data as Partial<TranslationPolicy>);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await storage.getTranslationPreset(id))) {
+        return res.status(404).json({ error: 'Translation preset not found' });
+      }
+
+      await storage.updateTranslationPreset(id, parsed.data);
+      res.json(await storage.getTranslationPreset(id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update translation preset' });
+    }
+  });
 
-      res.json({ audioFile, job });
+  app.delete('/api/translation-presets/:id', async (req, res) => {
+    try {
+      await storage.deleteTranslationPreset(parseInt(req.params.id));
+      res.json({ success: true });
     } catch (error) {
-      console.error('Upload error:', error);
-      res.status(500).json({ error: 'Failed to upload file' });
+      res.status(500).json({ error: 'Failed to delete translation preset' });
     }
   });
 
-  // Get audio file details
-  app.get('/api/audio/:id', async (req, res) => {
+  // Get recent files
+  app.get('/api/recent-files', async (req, res) => {
     try {
-      const audioFile = await storage.getAudioFile(parseInt(req.params.id));
-      if (!audioFile) {
-        return res.status(404).json({ error: 'Audio file not found' });
-      }
-      res.json(audioFile);
+      const files = await storage.getRecentAudioFiles();
+      res.json(files);
     } catch (error) {
-      res.status(500).json({ error: 'Failed to get audio file' });
+      res.status(500).json({ error: 'Failed to get recent files' });
     }
   });
 
-  // Get subtitles for audio file
-  app.get('/api/audio/:id/subtitles', async (req, res) => {
+  // List processing jobs, newest first, a page at a time. ?status= takes comma-separated statuses,
+  // "active" (queued or running, the default) or "history" (completed, failed or cancelled)
+  app.get('/api/processing-jobs', async (req, res) => {
+    let listing: JobListing;
     try {
-      const subtitles = await storage.getSubtitlesByAudioFile(parseInt(req.params.id));
-      res.json(subtitles);
+      listing = parseJobListing(req.query);
     } catch (error) {
-      res.status(500).json({ error: 'Failed to get subtitles' });
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid job listing' });
     }
-  });
 
-  // Update subtitle
-  app.patch('/api/subtitles/:id', async (req, res) => {
     try {
-      const { japaneseText, englishText, startTime, endTime } = req.body;
-      await storage.updateSubtitle(parseInt(req.params.id), {
-        japaneseText,
-        englishText,
-        startTime,
-        endTime
-      });
-      res.json({ success: true });
+      const { statuses, page, pageSize } = listing;
+      const { jobs, total } = await storage.getProcessingJobs({ statuses, offset: (page - 1) * pageSize, limit: pageSize });
+      res.json({ jobs, total, page, pageSize });
     } catch (error) {
-      res.status(500).json({ error: 'Failed to update subtitle' });
+      res.status(500).json({ error: 'Failed to get processing jobs' });
     }
   });
 
-  // Download SRT file
-  app.get('/api/audio/:id/download-srt', async (req, res) => {
+  // Requeue a failed job; stages whose output was saved are not run again
+  app.post('/api/processing-jobs/:id/resume', async (req, res) => {
     try {
-      const audioFile = await storage.getAudioFile(parseInt(req.params.id));
-      if (!audioFile) {
-        return res.status(404).json({ error: 'Audio file not found' });
+      const job = await storage.getProcessingJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ error: 'Processing job not found' });
+      }
+      if (job.status !== 'failed') {
+        return res.status(400).json({ error: 'Only failed jobs can be resumed' });
       }
 
-      const subtitles = await storage.getSubtitlesByAudioFile(parseInt(req.params.id));
-      const srtContent = generateSRT(subtitles);
+      const hasTranscript = !!(await storage.getJobCheckpoint(job.id, 'transcription'));
+      if (!hasTranscript && !(job.filePath && fs.existsSync(job.filePath))) {
+        return res.status(400).json({ error: 'The uploaded audio is no longer available. Please upload the file again.' });
+      }
 
-      res.setHeader('Content-Type', 'text/plain');
-      res.setHeader('Content-Disposition', `attachment; filename="${audioFile.originalName}.srt"`);
-      res.send(srtContent);
+      await storage.updateProcessingJob(job.id, {
+        status: 'queued',
+        error: null,
+        attempts: 0,
+        leaseOwner: null,
+        leaseExpiresAt: null
+      });
+      await storage.updateAudioFileStatus(job.audioFileId, 'uploaded');
+      jobQueue.notify();
+
+      res.json(await storage.getProcessingJob(job.id));
     } catch (error) {
-      res.status(500).json({ error: 'Failed to generate SRT file' });
+      console.error('Job resume error:', error);
+      res.status(500).json({ error: 'Failed to resume processing job' });
     }
   });
 
-  // Get recent files
-  app.get('/api/recent-files', async (req, res) => {
+  // Cancel a queued or running job
+  app.post('/api/processing-jobs/:id/cancel', async (req, res) => {
     try {
-      const files = await storage.getRecentAudioFiles();
-      res.json(files);
+      const job = await storage.getProcessingJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ error: 'Processing job not found' });
+      }
+      if (!ACTIVE_JOB_STATUSES.includes(job.status as JobStatus)) {
+        return res.status(400).json({ error: 'Only queued or running jobs can be cancelled' });
+      }
+
+      await storage.updateProcessingJob(job.id, { status: 'cancelled', leaseOwner: null, leaseExpiresAt: null });
+
+      // A running job cleans up once its worker stops: straight away when it runs in this process,
+      // otherwise at that worker's next heartbeat. Queued jobs and jobs whose worker died have nobody to do it.
+      const leaseExpired = !job.leaseExpiresAt || job.leaseExpiresAt < new Date();
+      if (!jobQueue.abort(job.id) && (job.status === 'queued' || leaseExpired)) {
+        await finishCancelledJob(job, broadcast);
+      }
+
+      res.json(await storage.getProcessingJob(job.id));
     } catch (error) {
-      res.status(500).json({ error: 'Failed to get recent files' });
+      console.error('Job cancel error:', error);
+      res.status(500).json({ error: 'Failed to cancel processing job' });
     }
   });
 
-  // Get active processing jobs
-  app.get('/api/processing-jobs', async (req, res) => {
+  // Runs queued jobs inside this request, for deployments without a background worker (api/index.js)
+  app.post('/api/processing-jobs/run', async (req, res) => {
     try {
-      const jobs = await storage.getActiveProcessingJobs();
-      res.json(jobs);
+      if (jobQueue.isRunning()) {
+        return res.json({ processed: 0 });
+      }
+      const processed = await jobQueue.drain(JOB_DRAIN_BUDGET_MS);
+      res.json({ processed });
     } catch (error) {
-      res.status(500).json({ error: 'Failed to get processing jobs' });
+      console.error('Job run error:', error);
+      res.status(500).json({ error: 'Failed to run processing jobs' });
     }
   });
 
   return httpServer;
 }
 
-async function processAudioFile(audioFileId: number, filePath: string, broadcast: (message: any) => void) {
-  let job: any = null;
-  
+interface ProcessingOptions {
+  asrProvider?: string;
+  translationProvider?: string;
+  translationMode?: TranslationMode;
+  sourceLanguage?: string; // "auto" detects the language of every cue
+  diarizationProvider?: string; // "none" skips speaker diarization
+  readability?: Partial<ReadabilityLimits>;
+  uploadHost?: string; // the server whose disk holds the upload
+}
+
+async function processAudioFile(job: ProcessingJob, broadcast: (message: any) => void, signal: AbortSignal) {
+  const audioFileId = job.audioFileId;
+  const filePath = job.filePath || '';
+  const options = (job.options || {}) as ProcessingOptions;
+
   try {
     // Validate inputs
-    if (!audioFileId || !filePath) {
-      throw new Error('Invalid parameters: audioFileId and filePath are required');
+    if (!audioFileId) {
+      throw new Error('Invalid parameters: audioFileId is required');
     }
 
+    // Output of an earlier run of this job; completed stages are not run again
+    const savedTranscript = await loadCheckpoint<TranscriptionResult>(job.id, 'transcription');
+
     // Check if file exists
-    if (!fs.existsSync(filePath)) {
-      throw new Error('Audio file not found');
+    if (!savedTranscript && !(filePath && fs.existsSync(filePath))) {
+      // Uploads are kept on the local disk of the server that received them
+      throw new Error(options.uploadHost && options.uploadHost !== os.hostname()
+        ? 'The uploaded audio is stored on another server instance. Deployments without a background worker must run a single instance.'
+        : 'Audio file not found');
     }
 
     // Update job status
-    job = await storage.createProcessingJob({
-      audioFileId,
+    await storage.updateProcessingJob(job.id, {
       stage: 'transcription',
+      status: 'transcribing',
       progress: 0,
-      status: 'processing'
+      error: null
     });
 
     broadcast({
@@ -215,42 +1184,33 @@ async function processAudioFile(audioFileId: number, filePath: string, broadcast
       audioFileId,
       stage: 'transcription',
       progress: 0,
-      status: 'processing'
+      status: 'transcribing'
     });
 
-    // Step 1: Transcribe audio with retry logic
-    let transcriptionResult;
-    let retryCount = 0;
-    const maxRetries = 3;
-
-    while (retryCount < maxRetries) {
-      try {
-        transcriptionResult = await audioProcessor.transcribeAudio(filePath);
-        break;
-      } catch (transcriptionError) {
-        retryCount++;
-        console.warn(`Transcription attempt ${retryCount} failed:`, transcriptionError);
-        
-        if (retryCount >= maxRetries) {
-          throw new Error(`Transcription failed after ${maxRetries} attempts: ${transcriptionError instanceof Error ? transcriptionError.message : 'Unknown error'}`);
-        }
-        
-        // Wait before retry (exponential backoff)
-        await new Promise(resolve => setTimeout(resolve, Math.pow(2, retryCount) * 1000));
-      }
-    }
-
-    if (!transcriptionResult) {
-      throw new Error('Transcription failed: No result obtained');
+    // Step 1: Transcribe audio; each request to the provider is retried by the transcription scheduler
+    const transcriptionResult = savedTranscript ||
+      await audioProcessor.transcribeAudio(filePath, { provider: options.asrProvider, language: options.sourceLanguage, signal });
+    if (savedTranscript) {
+      console.log(`Resuming processing job ${job.id} from its saved transcript`);
+    } else {
+      await saveCheckpoint(job.id, 'transcription', transcriptionResult);
     }
     
     // Update audio file with duration
+    const audioFile = await storage.getAudioFile(audioFileId);
+    let durationMs = audioFile?.duration ? audioFile.duration * 1000 : 0;
+    if (!durationMs && transcriptionResult.duration > 0) {
+      const duration = Math.ceil(transcriptionResult.duration);
+      await storage.updateAudioFileDuration(audioFileId, duration);
+      durationMs = duration * 1000;
+    }
     await storage.updateAudioFileStatus(audioFileId, 'transcribing');
     
+    signal.throwIfAborted();
     await storage.updateProcessingJob(job.id, {
       stage: 'transcription',
-      progress: 50,
-      status: 'processing'
+      status: 'transcribing',
+      progress: 50
     });
 
     broadcast({
@@ -258,14 +1218,55 @@ async function processAudioFile(audioFileId: number, filePath: string, broadcast
       audioFileId,
       stage: 'transcription',
       progress: 50,
-      status: 'processing'
+      status: 'transcribing'
     });
 
+    // Optional speaker diarization; a failure leaves the cues without speakers and is noted on the job,
+    // since the upload is deleted below and the speakers cannot be found again later
+    let speakerTurns: SpeakerTurn[] = [];
+    let diarizationWarning: string | null = null;
+    const diarizationProvider = options.diarizationProvider || process.env.DIARIZATION_PROVIDER || 'none';
+    if (diarizationProvider !== 'none') {
+      signal.throwIfAborted();
+      await storage.updateProcessingJob(job.id, {
+        stage: 'diarization',
+        status: 'transcribing',
+        progress: 55
+      });
+
+      broadcast({
+        type: 'processing-update',
+        audioFileId,
+        stage: 'diarization',
+        progress: 55,
+        status: 'transcribing'
+      });
+
+      try {
+        const savedTurns = await loadCheckpoint<SpeakerTurn[]>(job.id, 'diarization');
+        speakerTurns = savedTurns || await getDiarizationProvider(diarizationProvider).diarize(filePath, signal);
+        if (!savedTurns) {
+          await saveCheckpoint(job.id, 'diarization', speakerTurns);
+        }
+      } catch (diarizationError) {
+        signal.throwIfAborted();
+        console.error('Speaker diarization failed:', diarizationError);
+        diarizationWarning = `Speaker diarization was skipped: ${diarizationError instanceof Error ? diarizationError.message : 'Unknown diarization error'}`;
+      }
+    }
+
+    // Nothing past this point reads the audio, and a resumed job starts from the saved transcript,
+    // so the upload is removed now rather than kept around if a later stage fails
+    if (filePath && fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+
     // Step 2: Translation with error handling
+    signal.throwIfAborted();
     await storage.updateProcessingJob(job.id, {
       stage: 'translation',
-      progress: 60,
-      status: 'processing'
+      status: 'translating',
+      progress: 60
     });
 
     broadcast({
@@ -273,41 +1274,100 @@ async function processAudioFile(audioFileId: number, filePath: string, broadcast
       audioFileId,
       stage: 'translation',
       progress: 60,
-      status: 'processing'
+      status: 'translating'
     });
 
-    // Process segments or full text safely
-    const segments = transcriptionResult.segments && transcriptionResult.segments.length > 0 
-      ? transcriptionResult.segments 
+    // Process segments or full text safely; ids come from the transcript so results can be matched back
+    const segments = (transcriptionResult.segments && transcriptionResult.segments.length > 0
+      ? transcriptionResult.segments
       : [{
           start: 0,
           end: (transcriptionResult.duration || 30) * 1000,
-          text: transcriptionResult.text || 'No transcription available'
-        }];
+          text: transcriptionResult.text || 'No transcription available',
+          language: languageDetector.detect(transcriptionResult.text || '', transcriptionResult.language || 'ja')
+        }]).map((segment, index) => ({ ...segment, id: segment.id ?? index }));
 
     if (segments.length === 0) {
       throw new Error('No audio segments found to translate');
     }
 
-    const translationTexts = segments.map(segment => segment.text).filter(text => text && text.trim());
+    // Segments without text are dropped here, before translation, and never become cues
+    const translationTexts: SourceText[] = segments
+      .filter(segment => segment.text && segment.text.trim())
+      .map(segment => ({ id: segment.id, text: segment.text, language: segment.language || 'ja' }));
     
     if (translationTexts.length === 0) {
       throw new Error('No valid text found for translation');
     }
 
-    let translations;
+    let translations: Map<number, CueTranslation>;
     try {
-      translations = await translationService.translateBatch(translationTexts);
+      const savedTranslations = await loadCheckpoint<CueTranslation[]>(job.id, 'translation');
+      if (savedTranslations) {
+        console.log(`Resuming processing job ${job.id} from its saved translations`);
+        translations = translationService.alignTranslations(translationTexts, savedTranslations);
+      } else {
+        const glossary = await storage.getGlossaryTermsForAudioFile(audioFileId);
+        const policy = await loadTranslationPolicy(audioFile?.translationPresetId);
+        // Cues already in English are passed through untouched
+        const results = await translationService.translateMixedBatch(translationTexts, 'en', {
+          provider: options.translationProvider,
+          mode: options.translationMode,
+          glossary,
+          policy,
+          signal
+        });
+        translations = translationService.alignTranslations(translationTexts, results);
+        await saveCheckpoint(job.id, 'translation', results);
+      }
     } catch (translationError) {
       console.error('Translation failed:', translationError);
       throw new Error(`Translation failed: ${translationError instanceof Error ? translationError.message : 'Unknown translation error'}`);
     }
 
-    // Step 3: Generate subtitles
+    const speakerLabels = assignSpeakers(segments, speakerTurns);
+    const draftCues: DraftCue[] = [];
+    segments.forEach((segment, index) => {
+      const translation = translations.get(segment.id);
+      if (!translation) return;
+
+      const [startTime, endTime] = clampToDuration(segment.start || 0, segment.end || 1000, durationMs);
+      draftCues.push({
+        startTime,
+        endTime,
+        japaneseText: segment.text,
+        englishText: translation.translatedText,
+        language: segment.language || 'ja',
+        words: segment.words ? wordsWithin(segment.words, startTime, endTime) : null,
+        speaker: speakerLabels[index] ?? null,
+        translationStatus: translation.status
+      });
+    });
+
+    // Step 3: Re-segment cues to reading-speed limits
+    signal.throwIfAborted();
+    await storage.updateProcessingJob(job.id, {
+      stage: 'segmentation',
+      status: 'segmenting',
+      progress: 70
+    });
+
+    broadcast({
+      type: 'processing-update',
+      audioFileId,
+      stage: 'segmentation',
+      progress: 70,
+      status: 'segmenting'
+    });
+
+    const cues = cueSegmenter.segment(draftCues, { ...DEFAULT_READABILITY_LIMITS, ...options.readability }, durationMs);
+
+    // Step 4: Generate subtitles and any additional language tracks; still part of the segmenting status
+    signal.throwIfAborted();
     await storage.updateProcessingJob(job.id, {
       stage: 'subtitle_generation',
-      progress: 80,
-      status: 'processing'
+      status: 'segmenting',
+      progress: 80
     });
 
     broadcast({
@@ -315,42 +1375,47 @@ async function processAudioFile(audioFileId: number, filePath: string, broadcast
       audioFileId,
       stage: 'subtitle_generation',
       progress: 80,
-      status: 'processing'
+      status: 'segmenting'
     });
 
-    // Create subtitle entries with validation
-    const validTranslations = translations.filter(t => t && t.translatedText);
-    
-    if (validTranslations.length === 0) {
-      throw new Error('No valid translations generated');
-    }
-
-    for (let i = 0; i < Math.min(segments.length, validTranslations.length); i++) {
-      const segment = segments[i];
-      const translation = validTranslations[i];
-
-      if (!segment || !translation) continue;
+    // Replaced in one transaction, so a job requeued after a restart never finds half of its output
+    const createdSubtitles = await storage.replaceSubtitles(
+      audioFileId,
+      cues.map(({ speaker, ...cue }) => ({ ...cue, audioFileId, speakerLabel: speaker })),
+      buildSpeakers(audioFileId, cues.map(cue => cue.speaker))
+    );
 
+    // Additional language tracks; a failure here leaves the English track intact
+    const extraLanguages = audioFile ? getFileLanguages(audioFile).filter(language => language !== 'en') : [];
+    for (const language of extraLanguages) {
+      signal.throwIfAborted();
       try {
-        await storage.createSubtitle({
-          audioFileId,
-          startTime: Math.max(0, segment.start || 0),
-          endTime: Math.max(segment.start || 0, segment.end || 1000),
-          japaneseText: segment.text || 'No text',
-          englishText: translation.translatedText || 'No translation'
-        });
-      } catch (subtitleError) {
-        console.error(`Failed to create subtitle ${i}:`, subtitleError);
-        // Continue with other subtitles even if one fails
+        const sources = createdSubtitles.map(toSourceText);
+        const languageTranslations = translationService.alignTranslations(sources, await translationService.translateMixedBatch(sources, language, {
+          provider: options.translationProvider,
+          mode: options.translationMode,
+          policy: await loadTranslationPolicy(audioFile?.translationPresetId),
+          signal
+        }));
+        // Failed cues get no row, which is how a missing translation shows up for retry
+        for (const translation of Array.from(languageTranslations.values())) {
+          if (translation.status === 'translated') {
+            await storage.upsertSubtitleTranslation({ subtitleId: translation.id, language, text: translation.translatedText });
+          }
+        }
+      } catch (languageError) {
+        console.error(`Failed to translate ${language} track:`, languageError);
       }
     }
 
     // Complete processing
+    signal.throwIfAborted();
     await storage.updateAudioFileStatus(audioFileId, 'completed');
     await storage.updateProcessingJob(job.id, {
       stage: 'completed',
       progress: 100,
-      status: 'completed'
+      status: 'completed',
+      error: diarizationWarning
     });
 
     broadcast({
@@ -361,11 +1426,26 @@ async function processAudioFile(audioFileId: number, filePath: string, broadcast
       status: 'completed'
     });
 
-    // Clean up uploaded file
-    fs.unlinkSync(filePath);
+    // Clean up the stage output kept for resuming
+    await storage.deleteJobCheckpoints(job.id);
 
   } catch (error) {
-    console.error('Processing error:', error);
+    // Cancelling is not a failure. A cancel from another process can also surface here as a rejected
+    // status change, before the heartbeat notices it.
+    const current = await storage.getProcessingJob(job.id);
+    if (current?.status === 'cancelled') {
+      await finishCancelledJob(current, broadcast);
+      return;
+    }
+    // A worker that only lost its lease leaves the job to the new owner. Running out of time in a
+    // POST /api/processing-jobs/run request is a failure, which can be resumed from the saved stages.
+    if (signal.aborted && !(signal.reason instanceof JobDeadlineError)) {
+      console.warn(`Stopped processing job ${job.id}:`, signal.reason instanceof Error ? signal.reason.message : signal.reason);
+      return;
+    }
+    const failure = signal.aborted ? signal.reason : error;
+
+    console.error('Processing error:', failure);
     
     // Safely update audio file status
     try {
@@ -376,15 +1456,10 @@ async function processAudioFile(audioFileId: number, filePath: string, broadcast
     
     // Safely update processing job
     try {
-      const jobs = await storage.getActiveProcessingJobs();
-      const currentJob = jobs.find(j => j.audioFileId === audioFileId) || job;
-      
-      if (currentJob) {
-        await storage.updateProcessingJob(currentJob.id, {
-          status: 'failed',
-          error: error instanceof Error ? error.message : 'Unknown processing error'
-        });
-      }
+      await storage.updateProcessingJob(job.id, {
+        status: 'failed',
+        error: failure instanceof Error ? failure.message : 'Unknown processing error'
+      });
     } catch (jobUpdateError) {
       console.error('Failed to update processing job:', jobUpdateError);
     }
@@ -394,38 +1469,380 @@ async function processAudioFile(audioFileId: number, filePath: string, broadcast
       broadcast({
         type: 'processing-error',
         audioFileId,
-        error: error instanceof Error ? error.message : 'Unknown processing error'
+        error: failure instanceof Error ? failure.message : 'Unknown processing error'
       });
     } catch (broadcastError) {
       console.error('Failed to broadcast error:', broadcastError);
     }
 
-    // Safely clean up uploaded file
-    try {
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
+    // Saved stage output, and the upload when no transcript was saved yet, are kept so the job can be
+    // resumed; the job queue removes uploads of failed jobs after JOB_UPLOAD_RETENTION_MS
+  }
+}
+
+// The upload and saved stage output of a cancelled job are no longer needed
+async function finishCancelledJob(job: ProcessingJob, broadcast: (message: any) => void) {
+  try {
+    await storage.updateAudioFileStatus(job.audioFileId, 'cancelled');
+    await storage.deleteJobCheckpoints(job.id);
+    if (job.filePath && fs.existsSync(job.filePath)) {
+      fs.unlinkSync(job.filePath);
+    }
+  } catch (cleanupError) {
+    console.error('Failed to clean up cancelled job:', cleanupError);
+  }
+
+  broadcast({
+    type: 'processing-cancelled',
+    audioFileId: job.audioFileId,
+    jobId: job.id
+  });
+}
+
+async function loadCheckpoint<T>(jobId: number, stage: string): Promise<T | undefined> {
+  const checkpoint = await storage.getJobCheckpoint(jobId, stage);
+  return checkpoint ? checkpoint.data as T : undefined;
+}
+
+async function saveCheckpoint(jobId: number, stage: string, data: object): Promise<void> {
+  await storage.upsertJobCheckpoint({ jobId, stage, data });
+}
+
+async function loadTranslationPolicy(presetId?: number | null): Promise<TranslationPolicy | undefined> {
+  if (presetId == null) {
+    return undefined;
+  }
+  const preset = await storage.getTranslationPreset(presetId);
+  return preset ? translationPolicyService.fromPreset(preset) : undefined;
+}
+
+// Keeps cue timings inside the media; a duration of 0 means the length is unknown
+function clampToDuration(start: number, end: number, durationMs: number): [number, number] {
+  let startTime = Math.max(0, start);
+  let endTime = Math.max(startTime, end);
+
+  if (durationMs > 0) {
+    startTime = Math.min(startTime, durationMs);
+    endTime = Math.min(endTime, durationMs);
+  }
+
+  return [startTime, endTime];
+}
+
+// Keeps the words that start inside a cue, clamping their ends to it
+function wordsWithin(words: SubtitleWord[], startTime: number, endTime: number): SubtitleWord[] {
+  return words
+    .filter(word => word.start >= startTime && word.start < endTime)
+    .map(word => ({ ...word, end: Math.min(word.end, endTime) }));
+}
+
+async function retranslateSubtitles(audioFileId: number, subtitles: Subtitle[], broadcast: (message: any) => void, translationOptions: TranslationOptions = {}, language: string = 'en') {
+  const chunkSize = 10;
+  let completed = 0;
+  let failed = 0;
+
+  try {
+    // Glossary renderings are English, so they only apply to the English track
+    const glossary = language === 'en' ? await storage.getGlossaryTermsForAudioFile(audioFileId) : [];
+
+    broadcast({
+      type: 'retranslation-update',
+      audioFileId,
+      language,
+      completed,
+      total: subtitles.length,
+      progress: 0
+    });
+
+    for (let i = 0; i < subtitles.length; i += chunkSize) {
+      const chunk = subtitles.slice(i, i + chunkSize);
+
+      const sources = chunk.map(toSourceText);
+      let translations = new Map<number, CueTranslation>();
+      try {
+        translations = translationService.alignTranslations(sources, await translationService.translateMixedBatch(sources, language, { ...translationOptions, glossary }));
+      } catch (translationError) {
+        console.error('Re-translation chunk failed:', translationError);
+      }
+
+      for (const subtitle of chunk) {
+        const translation = translations.get(subtitle.id);
+        // Keep the existing text of a cue that failed again
+        if (translation?.status === 'translated') {
+          if (language === 'en') {
+            await storage.updateSubtitle(subtitle.id, { englishText: translation.translatedText, translationStatus: 'translated' });
+          } else {
+            await storage.upsertSubtitleTranslation({ subtitleId: subtitle.id, language, text: translation.translatedText });
+          }
+        } else {
+          failed++;
+        }
+        completed++;
       }
-    } catch (cleanupError) {
-      console.error('Failed to clean up file:', cleanupError);
+
+      broadcast({
+        type: 'retranslation-update',
+        audioFileId,
+        language,
+        completed,
+        total: subtitles.length,
+        progress: Math.round((completed / subtitles.length) * 100)
+      });
     }
+
+    broadcast({
+      type: 'retranslation-complete',
+      audioFileId,
+      language,
+      total: subtitles.length,
+      failed
+    });
+  } catch (error) {
+    console.error('Re-translation error:', error);
+    broadcast({
+      type: 'retranslation-error',
+      audioFileId,
+      error: error instanceof Error ? error.message : 'Unknown re-translation error'
+    });
   }
 }
 
-function generateSRT(subtitles: any[]): string {
-  return subtitles.map((subtitle, index) => {
-    const startTime = formatSRTTime(subtitle.startTime);
-    const endTime = formatSRTTime(subtitle.endTime);
-    
-    return `${index + 1}\n${startTime} --> ${endTime}\n${subtitle.englishText}\n`;
-  }).join('\n');
+// English failures are recorded on the cue; other tracks have no row for a cue that failed
+async function getFailedSubtitles(audioFileId: number, language: string): Promise<Subtitle[]> {
+  const subtitles = (await storage.getSubtitlesByAudioFile(audioFileId))
+    .filter(subtitle => subtitle.japaneseText.trim().length > 0);
+  if (language === 'en') {
+    // Older rows mark a failure with placeholder text rather than the status
+    return subtitles.filter(subtitle => subtitle.translationStatus === 'failed' || subtitle.englishText.startsWith('[Translation failed'));
+  }
+
+  const translated = new Set(
+    (await storage.getSubtitleTranslationsByAudioFile(audioFileId, language))
+      .filter(translation => translation.text.trim())
+      .map(translation => translation.subtitleId)
+  );
+  return subtitles.filter(subtitle => !translated.has(subtitle.id));
 }
 
-function formatSRTTime(milliseconds: number): string {
-  const totalSeconds = Math.floor(milliseconds / 1000);
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-  const ms = milliseconds % 1000;
-  
-  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')},${ms.toString().padStart(3, '0')}`;
+function toSourceText(subtitle: Subtitle): SourceText {
+  return { id: subtitle.id, text: subtitle.japaneseText, language: subtitle.language || 'ja' };
+}
+
+// English is always the primary track and comes first
+function parseTargetLanguages(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') {
+    return ['en'];
+  }
+
+  const codes = (Array.isArray(value) ? value : String(value).split(','))
+    .map(code => String(code).trim().toLowerCase())
+    .filter(Boolean);
+
+  const supported = getTargetLanguageCodes();
+  const unknown = codes.find(code => !supported.includes(code));
+  if (unknown) {
+    throw new Error(`Unsupported target language: ${unknown}`);
+  }
+
+  return Array.from(new Set(['en', ...codes]));
+}
+
+function getFileLanguages(audioFile: AudioFile): string[] {
+  return audioFile.targetLanguages && audioFile.targetLanguages.length > 0 ? audioFile.targetLanguages : ['en'];
+}
+
+// One speaker row per diarizer label, named and colored in order of first appearance
+function buildSpeakers(audioFileId: number, labels: (string | null)[]): InsertSpeaker[] {
+  const speakers: InsertSpeaker[] = [];
+  for (const label of labels) {
+    if (label === null || speakers.some(speaker => speaker.label === label)) continue;
+
+    speakers.push({
+      audioFileId,
+      label,
+      name: `Speaker ${speakers.length + 1}`,
+      color: SPEAKER_COLORS[speakers.length % SPEAKER_COLORS.length]
+    });
+  }
+  return speakers;
+}
+
+async function getSpeakerNames(audioFileId: number): Promise<Record<number, string>> {
+  const speakers = await storage.getSpeakersByAudioFile(audioFileId);
+  return Object.fromEntries(speakers.map(speaker => [speaker.id, speaker.name]));
+}
+
+// Returns subtitles with the requested track in place of the English text, so the formatter can render any language
+async function getLanguageTrack(audioFileId: number, language: string): Promise<Subtitle[]> {
+  const subtitles = await storage.getSubtitlesByAudioFile(audioFileId);
+  if (language === 'en') {
+    return subtitles;
+  }
+
+  const translations = new Map(
+    (await storage.getSubtitleTranslationsByAudioFile(audioFileId, language))
+      .map(translation => [translation.subtitleId, translation.text])
+  );
+  return subtitles.map(subtitle => ({
+    ...subtitle,
+    englishText: translations.get(subtitle.id) ?? '',
+    translationStatus: translations.get(subtitle.id)?.trim() ? 'translated' : 'failed'
+  }));
+}
+
+function trackFilename(audioFile: AudioFile, language: string, extension: string): string {
+  return language === 'en'
+    ? `${audioFile.originalName}.${extension}`
+    : `${audioFile.originalName}.${language}.${extension}`;
+}
+
+interface JobListing {
+  statuses: JobStatus[];
+  page: number;
+  pageSize: number;
+}
+
+function parseJobListing(query: Request["query"]): JobListing {
+  const listing: JobListing = { statuses: ACTIVE_JOB_STATUSES, page: 1, pageSize: 20 };
+
+  if (typeof query.status === 'string' && query.status.trim()) {
+    const statuses = new Set<JobStatus>();
+    for (const value of query.status.split(',').map(status => status.trim()).filter(Boolean)) {
+      if (value === 'active') {
+        ACTIVE_JOB_STATUSES.forEach(status => statuses.add(status));
+      } else if (value === 'history') {
+        FINISHED_JOB_STATUSES.forEach(status => statuses.add(status));
+      } else if (isJobStatus(value)) {
+        statuses.add(value);
+      } else {
+        throw new Error(`Invalid status: ${value}. Must be active, history or one of ${JOB_STATUSES.join(', ')}.`);
+      }
+    }
+    listing.statuses = Array.from(statuses);
+  }
+
+  if (typeof query.page === 'string' && query.page.trim()) {
+    const page = parseInt(query.page);
+    if (isNaN(page) || page < 1) {
+      throw new Error('Invalid page. Must be a positive number.');
+    }
+    listing.page = page;
+  }
+
+  if (typeof query.pageSize === 'string' && query.pageSize.trim()) {
+    const pageSize = parseInt(query.pageSize);
+    if (isNaN(pageSize) || pageSize < 1 || pageSize > 100) {
+      throw new Error('Invalid pageSize. Must be between 1 and 100.');
+    }
+    listing.pageSize = pageSize;
+  }
+
+  return listing;
+}
+
+// Multipart fields arrive as strings; blank fields fall back to the defaults
+function parseReadabilityLimits(body: Record<string, any>): Partial<ReadabilityLimits> {
+  const limits: Partial<ReadabilityLimits> = {};
+  for (const key of Object.keys(DEFAULT_READABILITY_LIMITS) as (keyof ReadabilityLimits)[]) {
+    if (body[key] !== undefined && body[key] !== '') {
+      limits[key] = Number(body[key]);
+    }
+  }
+  return limits;
+}
+
+function parseTextMode(query: Request["query"]): TextModeOptions {
+  const options: TextModeOptions = {};
+
+  if (typeof query.mode === 'string' && query.mode.trim()) {
+    const mode = query.mode.trim();
+    if (!['english', 'japanese', 'bilingual'].includes(mode)) {
+      throw new Error('Invalid mode. Must be one of english, japanese, bilingual.');
+    }
+    options.mode = mode as TextModeOptions['mode'];
+  }
+
+  if (typeof query.order === 'string' && query.order.trim()) {
+    const order = query.order.trim();
+    if (!['ja-en', 'en-ja'].includes(order)) {
+      throw new Error('Invalid order. Must be ja-en or en-ja.');
+    }
+    options.order = order as TextModeOptions['order'];
+  }
+
+  return options;
+}
+
+function parseVTTCueSettings(query: Request["query"]): VTTCueSettings | undefined {
+  const cueSettings: VTTCueSettings = {};
+
+  if (typeof query.position === 'string' && query.position.trim()) {
+    const position = parseFloat(query.position);
+    if (isNaN(position) || position < 0 || position > 100) {
+      throw new Error('Invalid position. Must be a percentage between 0 and 100.');
+    }
+    cueSettings.position = position;
+  }
+
+  if (typeof query.line === 'string' && query.line.trim()) {
+    const line = query.line.trim();
+    if (!/^-?\d+$/.test(line) && !/^\d+(\.\d+)?%$/.test(line)) {
+      throw new Error('Invalid line. Must be a line number or a percentage.');
+    }
+    cueSettings.line = line;
+  }
+
+  if (typeof query.align === 'string' && query.align.trim()) {
+    const align = query.align.trim();
+    if (!['start', 'center', 'end', 'left', 'right'].includes(align)) {
+      throw new Error('Invalid align. Must be one of start, center, end, left, right.');
+    }
+    cueSettings.align = align as VTTCueSettings['align'];
+  }
+
+  return Object.keys(cueSettings).length > 0 ? cueSettings : undefined;
+}
+
+function parseASSStyle(query: Request["query"], prefix: 'ja' | 'en'): Partial<ASSStyle> {
+  const style: Partial<ASSStyle> = {};
+  const font = query[`${prefix}Font`];
+  const size = query[`${prefix}Size`];
+  const color = query[`${prefix}Color`];
+  const outlineColor = query[`${prefix}OutlineColor`];
+  const marginV = query[`${prefix}MarginV`];
+
+  if (typeof font === 'string' && font.trim()) {
+    style.fontName = font.trim();
+  }
+
+  if (typeof size === 'string' && size.trim()) {
+    const fontSize = parseInt(size);
+    if (isNaN(fontSize) || fontSize < 8 || fontSize > 200) {
+      throw new Error(`Invalid ${prefix}Size. Must be between 8 and 200.`);
+    }
+    style.fontSize = fontSize;
+  }
+
+  for (const [key, value] of [['primaryColor', color], ['outlineColor', outlineColor]] as const) {
+    if (typeof value === 'string' && value.trim()) {
+      if (!/^#?[0-9a-f]{6}$/i.test(value.trim())) {
+        throw new Error(`Invalid ${prefix} color. Must be a hex color like #FFFFFF.`);
+      }
+      style[key] = value.trim();
+    }
+  }
+
+  if (typeof marginV === 'string' && marginV.trim()) {
+    const margin = parseInt(marginV);
+    if (isNaN(margin) || margin < 0) {
+      throw new Error(`Invalid ${prefix}MarginV. Must be a non-negative number.`);
+    }
+    style.marginV = margin;
+  }
+
+  if (query[`${prefix}Bold`] === 'true') {
+    style.bold = true;
+  }
+
+  return style;
 }
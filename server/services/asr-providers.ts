@@ -0,0 +1,276 @@
+import OpenAI from "openai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { audioSplitter, runCommand } from "./audio-splitter";
+import { languageDetector } from "./language-detector";
+
+export interface TranscriptionWord {
+  start: number; // in milliseconds
+  end: number; // in milliseconds
+  text: string;
+}
+
+export interface TranscriptionSegment {
+  id?: number; // position in the whole transcript, assigned once chunks are combined
+  start: number; // in milliseconds
+  end: number; // in milliseconds
+  text: string;
+  language?: string; // ISO 639-1, detected per segment
+  words?: TranscriptionWord[];
+}
+
+export interface TranscriptionResult {
+  text: string;
+  duration: number;
+  language?: string; // dominant language reported by the backend
+  segments?: TranscriptionSegment[];
+}
+
+export interface TranscriptionOptions {
+  language?: string; // omitted to let the backend detect it
+  signal?: AbortSignal; // aborts the request when the job is cancelled
+}
+
+// Backends that report words separately from segments are matched up by start time
+function assignWords(segments: TranscriptionSegment[], words: TranscriptionWord[]): TranscriptionSegment[] {
+  return segments.map((segment, index) => {
+    const isLast = index === segments.length - 1;
+    return {
+      ...segment,
+      words: words.filter(word => word.start >= segment.start && (word.start < segment.end || (isLast && word.start <= segment.end)))
+    };
+  });
+}
+
+const CJK_TOKEN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/;
+
+export interface AsrProvider {
+  readonly name: string;
+  // Largest file the backend accepts in one request; larger files are split first
+  readonly maxFileBytes?: number;
+  transcribe(audioFilePath: string, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+export class OpenAIWhisperProvider implements AsrProvider {
+  readonly name = 'openai';
+  readonly maxFileBytes = 25 * 1024 * 1024;
+  private openai: OpenAI;
+
+  constructor() {
+    // Retries are left to the request scheduler, which spaces them across every chunk
+    this.openai = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY || process.env.VITE_OPENAI_API_KEY || "default_key",
+      maxRetries: 0
+    });
+  }
+
+  async transcribe(audioFilePath: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    const audioReadStream = fs.createReadStream(audioFilePath);
+
+    // Set up error handling for the stream
+    audioReadStream.on('error', (streamError) => {
+      throw new Error(`Failed to read audio file: ${streamError.message}`);
+    });
+
+    const transcription = await this.openai.audio.transcriptions.create({
+      file: audioReadStream,
+      model: "whisper-1",
+      ...(options.language ? { language: options.language } : {}),
+      response_format: "verbose_json",
+      timestamp_granularities: ["segment", "word"]
+    }, { signal: options.signal });
+
+    // Validate transcription response
+    if (!transcription) {
+      throw new Error('No transcription response received');
+    }
+
+    const segments = transcription.segments?.map(segment => ({
+      start: Math.max(0, (segment.start || 0) * 1000), // Convert to milliseconds and ensure non-negative
+      end: Math.max(0, (segment.end || 0) * 1000),
+      text: segment.text || ''
+    })) || [];
+    const words = transcription.words?.map(word => ({
+      start: Math.max(0, (word.start || 0) * 1000),
+      end: Math.max(0, (word.end || 0) * 1000),
+      text: (word.word || '').trim()
+    })) || [];
+
+    return {
+      text: transcription.text || '',
+      duration: transcription.duration || 0,
+      language: languageDetector.normalizeCode(transcription.language),
+      segments: assignWords(segments, words)
+    };
+  }
+}
+
+// Runs a local whisper.cpp or faster-whisper (whisper-ctranslate2) binary so audio never leaves the machine.
+// Configured with LOCAL_WHISPER_BINARY, LOCAL_WHISPER_MODEL and LOCAL_WHISPER_FLAVOR ("whisper.cpp" or "faster-whisper").
+export class LocalWhisperProvider implements AsrProvider {
+  readonly name = 'local';
+  private binary = process.env.LOCAL_WHISPER_BINARY || 'whisper-cli';
+  private model = process.env.LOCAL_WHISPER_MODEL || '';
+  private flavor = process.env.LOCAL_WHISPER_FLAVOR || 'whisper.cpp';
+
+  async transcribe(audioFilePath: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-whisper-'));
+
+    try {
+      let outputPath: string;
+
+      if (this.flavor === 'faster-whisper') {
+        await runCommand(this.binary, [
+          audioFilePath,
+          ...(options.language ? ['--language', options.language] : []),
+          '--output_format', 'json',
+          '--output_dir', workDir,
+          '--word_timestamps', 'True',
+          ...(this.model ? ['--model', this.model] : [])
+        ], options.signal);
+        outputPath = path.join(workDir, `${path.parse(audioFilePath).name}.json`);
+      } else {
+        if (!this.model) {
+          throw new Error('LOCAL_WHISPER_MODEL must point to a whisper.cpp model file');
+        }
+        const wavPath = path.join(workDir, 'input.wav');
+        await audioSplitter.convertToWav(audioFilePath, wavPath, options.signal);
+
+        const outputPrefix = path.join(workDir, 'output');
+        await runCommand(this.binary, ['-m', this.model, '-f', wavPath, '-l', options.language || 'auto', '-ojf', '-of', outputPrefix], options.signal);
+        outputPath = `${outputPrefix}.json`;
+      }
+
+      if (!fs.existsSync(outputPath)) {
+        throw new Error('Local whisper did not produce a transcript');
+      }
+
+      return this.parseOutput(JSON.parse(fs.readFileSync(outputPath, 'utf8')));
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private parseOutput(output: any): TranscriptionResult {
+    let segments: TranscriptionSegment[];
+
+    if (Array.isArray(output.transcription)) {
+      // whisper.cpp reports offsets in milliseconds
+      segments = output.transcription.map((segment: any) => ({
+        start: Math.max(0, segment.offsets?.from || 0),
+        end: Math.max(0, segment.offsets?.to || 0),
+        text: (segment.text || '').trim(),
+        words: this.mergeTokens(segment.tokens || [])
+      }));
+    } else if (Array.isArray(output.segments)) {
+      // faster-whisper follows the OpenAI layout with times in seconds
+      segments = output.segments.map((segment: any) => ({
+        start: Math.max(0, (segment.start || 0) * 1000),
+        end: Math.max(0, (segment.end || 0) * 1000),
+        text: (segment.text || '').trim(),
+        words: (segment.words || []).map((word: any) => ({
+          start: Math.max(0, (word.start || 0) * 1000),
+          end: Math.max(0, (word.end || 0) * 1000),
+          text: (word.word || '').trim()
+        }))
+      }));
+    } else {
+      throw new Error('Unrecognized local whisper output format');
+    }
+
+    return {
+      text: output.text || segments.map(segment => segment.text).join(''),
+      duration: segments.length > 0 ? segments[segments.length - 1].end / 1000 : 0,
+      // whisper.cpp nests the detected language under "result"
+      language: languageDetector.normalizeCode(output.result?.language || output.language),
+      segments
+    };
+  }
+
+  // whisper.cpp reports sub-word tokens; a token without a leading space continues the previous word,
+  // except in scripts written without spaces where each token stands alone
+  private mergeTokens(tokens: any[]): TranscriptionWord[] {
+    const words: TranscriptionWord[] = [];
+
+    for (const token of tokens) {
+      const text: string = token.text || '';
+      if (!text.trim() || text.startsWith('[_')) continue;
+
+      const start = Math.max(0, token.offsets?.from || 0);
+      const end = Math.max(0, token.offsets?.to || 0);
+      const previous = words[words.length - 1];
+
+      if (previous && !text.startsWith(' ') && !CJK_TOKEN.test(text) && !CJK_TOKEN.test(previous.text)) {
+        previous.text += text;
+        previous.end = end;
+      } else {
+        words.push({ start, end, text: text.trim() });
+      }
+    }
+
+    return words;
+  }
+}
+
+// Returns a fixed transcript so the pipeline can be exercised without any ASR backend.
+// Loads ASR_FIXTURE_PATH (a TranscriptionResult JSON file) when set.
+export class FixtureAsrProvider implements AsrProvider {
+  readonly name = 'fixture';
+
+  async transcribe(): Promise<TranscriptionResult> {
+    const fixturePath = process.env.ASR_FIXTURE_PATH;
+    if (fixturePath) {
+      return JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+    }
+
+    const segments: TranscriptionSegment[] = [
+      { start: 0, end: 2500, text: 'こんにちは、皆さん。' },
+      { start: 2500, end: 5000, text: '今日はいい天気ですね。' },
+      { start: 5000, end: 8000, text: 'それでは始めましょう。' }
+    ];
+
+    // Spread character timings evenly so word-level features can be exercised too
+    for (const segment of segments) {
+      const characters = Array.from(segment.text);
+      const step = (segment.end - segment.start) / characters.length;
+      segment.words = characters.map((character, index) => ({
+        start: Math.round(segment.start + index * step),
+        end: Math.round(segment.start + (index + 1) * step),
+        text: character
+      }));
+    }
+
+    return {
+      text: segments.map(segment => segment.text).join(''),
+      duration: 8,
+      language: 'ja',
+      segments
+    };
+  }
+}
+
+const asrProviders: Record<string, () => AsrProvider> = {
+  openai: () => new OpenAIWhisperProvider(),
+  local: () => new LocalWhisperProvider(),
+  fixture: () => new FixtureAsrProvider()
+};
+
+const providerCache = new Map<string, AsrProvider>();
+
+export function getAsrProviderNames(): string[] {
+  return Object.keys(asrProviders);
+}
+
+export function getAsrProvider(name?: string): AsrProvider {
+  const providerName = name || process.env.ASR_PROVIDER || 'openai';
+  const factory = asrProviders[providerName];
+  if (!factory) {
+    throw new Error(`Unknown speech recognition provider: ${providerName}`);
+  }
+
+  if (!providerCache.has(providerName)) {
+    providerCache.set(providerName, factory());
+  }
+  return providerCache.get(providerName)!;
+}
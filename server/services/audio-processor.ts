@@ -1,39 +1,49 @@
-import OpenAI from "openai";
 import fs from "fs";
-import path from "path";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.VITE_OPENAI_API_KEY || "default_key"
-});
-
-export interface TranscriptionResult {
-  text: string;
-  duration: number;
-  segments?: Array<{
-    start: number;
-    end: number;
-    text: string;
-  }>;
+import { audioSplitter, type AudioChunk } from "./audio-splitter";
+import { getAsrProvider, type AsrProvider, type TranscriptionResult } from "./asr-providers";
+import { languageDetector } from "./language-detector";
+import { transcriptionScheduler } from "./request-scheduler";
+
+export type { TranscriptionResult } from "./asr-providers";
+
+export interface TranscribeOptions {
+  provider?: string;
+  // Spoken language, or "auto" to detect it; defaults to Japanese
+  language?: string;
+  signal?: AbortSignal; // cancels queued and in-flight chunk requests
+}
+
+const MP3_BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG1
+  2: [22050, 24000, 16000], // MPEG2
+  0: [11025, 12000, 8000] // MPEG2.5
+};
+
+function readBytes(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const bytesRead = fs.readSync(fd, buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
 }
 
 export class AudioProcessor {
-  private async handleLargeFile(audioFilePath: string): Promise<string> {
+  private async handleLargeFile(audioFilePath: string, provider: AsrProvider, signal?: AbortSignal): Promise<AudioChunk[]> {
     const stats = fs.statSync(audioFilePath);
     
-    // If file is under 25MB, return as is
-    if (stats.size <= 25 * 1024 * 1024) {
-      return audioFilePath;
+    // If the provider accepts the whole file, transcribe it in a single request
+    if (!provider.maxFileBytes || stats.size <= provider.maxFileBytes) {
+      return [{ path: audioFilePath, offset: 0, duration: 0 }];
     }
 
-    // For files over 25MB, we'll still try the original file first
-    // In a production environment, you might want to implement audio compression
-    // or chunking here using ffmpeg or similar tools
+    // Split on silence into smaller re-encoded chunks the provider will accept
     console.log(`Processing large file: ${Math.round(stats.size / 1024 / 1024)}MB`);
-    return audioFilePath;
+    const chunks = await audioSplitter.split(audioFilePath, {}, signal);
+    console.log(`Split large file into ${chunks.length} chunks`);
+    return chunks;
   }
 
-  async transcribeAudio(audioFilePath: string): Promise<TranscriptionResult> {
+  async transcribeAudio(audioFilePath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
     try {
       // Validate input
       if (!audioFilePath) {
@@ -50,51 +60,78 @@ export class AudioProcessor {
         throw new Error('Audio file is too large. Maximum size is 300MB.');
       }
 
-      // If file is larger than 25MB, we'll need to process it in chunks
-      // For now, we'll accept larger files and let OpenAI handle what it can
-      if (stats.size > 25 * 1024 * 1024) {
-        console.warn(`Large file detected (${Math.round(stats.size / 1024 / 1024)}MB). Processing may take longer.`);
-      }
-
       if (stats.size === 0) {
         throw new Error('Audio file is empty');
       }
 
+      const provider = getAsrProvider(options.provider);
+
       // Handle large files if necessary
-      const processedFilePath = await this.handleLargeFile(audioFilePath);
-      const audioReadStream = fs.createReadStream(processedFilePath);
+      const chunks = await this.handleLargeFile(audioFilePath, provider, options.signal);
+      const isChunked = chunks.length > 1 || chunks[0].path !== audioFilePath;
 
-      // Set up error handling for the stream
-      audioReadStream.on('error', (streamError) => {
-        throw new Error(`Failed to read audio file: ${streamError.message}`);
-      });
+      const language = options.language === 'auto' ? undefined : (options.language || 'ja');
+      const result: TranscriptionResult = { text: '', duration: 0, language, segments: [] };
+      const texts: string[] = [];
 
-      const transcription = await openai.audio.transcriptions.create({
-        file: audioReadStream,
-        model: "whisper-1",
-        language: "ja", // Japanese
-        response_format: "verbose_json",
-        timestamp_granularities: ["segment"]
-      });
+      try {
+        // Chunks are transcribed in parallel up to the scheduler's limit; every request is allowed to
+        // settle before the chunk files are cleaned up
+        const settled = await Promise.allSettled(chunks.map((chunk, index) =>
+          transcriptionScheduler.schedule(() => provider.transcribe(chunk.path, { language, signal: options.signal }), {
+            label: `${provider.name} transcription of chunk ${index + 1}/${chunks.length}`,
+            signal: options.signal
+          })
+        ));
+        const failure = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+        if (failure) {
+          throw failure.reason;
+        }
+
+        chunks.forEach((chunk, index) => {
+          const chunkResult = (settled[index] as PromiseFulfilledResult<TranscriptionResult>).value;
+          result.language = result.language || chunkResult.language;
 
-      // Validate transcription response
-      if (!transcription) {
-        throw new Error('No transcription response received');
+          // Shift chunk-relative timings onto the timeline of the original file
+          for (const segment of chunkResult.segments || []) {
+            result.segments!.push({
+              start: segment.start + chunk.offset,
+              end: segment.end + chunk.offset,
+              text: segment.text,
+              language: segment.language,
+              words: segment.words?.map(word => ({
+                start: word.start + chunk.offset,
+                end: word.end + chunk.offset,
+                text: word.text
+              }))
+            });
+          }
+
+          if (chunkResult.text.trim()) {
+            texts.push(chunkResult.text.trim());
+          }
+          result.duration = Math.max(result.duration, chunk.offset / 1000 + chunkResult.duration);
+        });
+      } finally {
+        if (isChunked) {
+          audioSplitter.cleanup(chunks);
+        }
       }
 
-      if (!transcription.text || transcription.text.trim().length === 0) {
+      result.text = texts.join(' ');
+
+      // Label every segment so mixed-language recordings can be routed cue by cue, and number them
+      // so translations can be matched back by id rather than by position
+      result.segments!.forEach((segment, index) => {
+        segment.id = index;
+        segment.language = segment.language || languageDetector.detect(segment.text, result.language || 'ja');
+      });
+
+      if (result.text.trim().length === 0) {
         throw new Error('No text was transcribed from the audio. The audio might be silent or in an unsupported format.');
       }
 
-      return {
-        text: transcription.text,
-        duration: transcription.duration || 0,
-        segments: transcription.segments?.map(segment => ({
-          start: Math.max(0, (segment.start || 0) * 1000), // Convert to milliseconds and ensure non-negative
-          end: Math.max(0, (segment.end || 0) * 1000),
-          text: segment.text || ''
-        })) || []
-      };
+      return result;
     } catch (error) {
       console.error("Error transcribing audio:", error);
       
@@ -120,9 +157,138 @@ export class AudioProcessor {
   }
 
   async getAudioDuration(audioFilePath: string): Promise<number> {
-    // For production, you might want to use a proper audio analysis library
-    // For now, we'll return a default duration and let the transcription provide the actual duration
-    return 0;
+    // ffprobe handles every container; header parsing covers hosts without ffmpeg
+    try {
+      return await audioSplitter.probeDuration(audioFilePath);
+    } catch (probeError) {
+      console.warn('ffprobe unavailable, falling back to header parsing:', probeError instanceof Error ? probeError.message : probeError);
+    }
+
+    const fd = fs.openSync(audioFilePath, 'r');
+    try {
+      const fileSize = fs.fstatSync(fd).size;
+      const header = readBytes(fd, 0, 12);
+
+      if (header.toString('ascii', 0, 4) === 'RIFF' && header.toString('ascii', 8, 12) === 'WAVE') {
+        return this.parseWavDuration(fd, fileSize);
+      }
+      if (header.toString('ascii', 4, 8) === 'ftyp') {
+        return this.parseMp4Duration(fd, fileSize);
+      }
+      return this.parseMp3Duration(fd, fileSize);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  private parseWavDuration(fd: number, fileSize: number): number {
+    let offset = 12;
+    let byteRate = 0;
+
+    while (offset + 8 <= fileSize) {
+      const chunkHeader = readBytes(fd, offset, 8);
+      const chunkId = chunkHeader.toString('ascii', 0, 4);
+      const chunkSize = chunkHeader.readUInt32LE(4);
+
+      if (chunkId === 'fmt ') {
+        byteRate = readBytes(fd, offset + 8, 16).readUInt32LE(8);
+      } else if (chunkId === 'data') {
+        if (!byteRate) break;
+        // Streaming writers leave the size unset, so cap it at what is actually on disk
+        const dataSize = Math.min(chunkSize, fileSize - offset - 8);
+        return dataSize / byteRate;
+      }
+
+      // Chunks are word aligned
+      offset += 8 + chunkSize + (chunkSize % 2);
+    }
+
+    throw new Error('Could not determine WAV duration');
+  }
+
+  private parseMp4Duration(fd: number, fileSize: number): number {
+    const findAtom = (type: string, start: number, end: number): { start: number; end: number } | null => {
+      let offset = start;
+      while (offset + 8 <= end) {
+        const atomHeader = readBytes(fd, offset, 16);
+        let size = atomHeader.readUInt32BE(0);
+        let headerSize = 8;
+
+        if (size === 1) {
+          size = Number(atomHeader.readBigUInt64BE(8));
+          headerSize = 16;
+        } else if (size === 0) {
+          size = end - offset;
+        }
+        if (size < headerSize) break;
+
+        if (atomHeader.toString('ascii', 4, 8) === type) {
+          return { start: offset + headerSize, end: offset + size };
+        }
+        offset += size;
+      }
+      return null;
+    };
+
+    const moov = findAtom('moov', 0, fileSize);
+    const mvhd = moov && findAtom('mvhd', moov.start, moov.end);
+    if (!mvhd) {
+      throw new Error('Could not determine M4A duration');
+    }
+
+    const body = readBytes(fd, mvhd.start, 32);
+    const version = body.readUInt8(0);
+    const timescale = version === 1 ? body.readUInt32BE(20) : body.readUInt32BE(12);
+    const duration = version === 1 ? Number(body.readBigUInt64BE(24)) : body.readUInt32BE(16);
+
+    if (!timescale) {
+      throw new Error('Could not determine M4A duration');
+    }
+    return duration / timescale;
+  }
+
+  private parseMp3Duration(fd: number, fileSize: number): number {
+    let offset = 0;
+
+    // Skip an ID3v2 tag; its size is stored as a syncsafe integer
+    const id3 = readBytes(fd, 0, 10);
+    if (id3.toString('ascii', 0, 3) === 'ID3') {
+      const tagSize = ((id3[6] & 0x7f) << 21) | ((id3[7] & 0x7f) << 14) | ((id3[8] & 0x7f) << 7) | (id3[9] & 0x7f);
+      offset = 10 + tagSize + ((id3[5] & 0x10) ? 10 : 0);
+    }
+
+    const buffer = readBytes(fd, offset, 64 * 1024);
+    for (let i = 0; i + 4 <= buffer.length; i++) {
+      if (buffer[i] !== 0xff || (buffer[i + 1] & 0xe0) !== 0xe0) continue;
+
+      const versionBits = (buffer[i + 1] >> 3) & 0x03; // 3 = MPEG1, 2 = MPEG2, 0 = MPEG2.5
+      const layerBits = (buffer[i + 1] >> 1) & 0x03; // 1 = Layer III
+      const bitrateIndex = buffer[i + 2] >> 4;
+      const sampleRateIndex = (buffer[i + 2] >> 2) & 0x03;
+      if (versionBits === 1 || layerBits !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) continue;
+
+      const isMpeg1 = versionBits === 3;
+      const bitrate = (isMpeg1 ? MP3_BITRATES_V1 : MP3_BITRATES_V2)[bitrateIndex] * 1000;
+      const sampleRate = MP3_SAMPLE_RATES[versionBits][sampleRateIndex];
+      const samplesPerFrame = isMpeg1 ? 1152 : 576;
+      const isMono = (buffer[i + 3] >> 6) === 3;
+
+      // VBR files carry the total frame count in a Xing/Info or VBRI header in the first frame
+      const sideInfoSize = isMpeg1 ? (isMono ? 17 : 32) : (isMono ? 9 : 17);
+      const xingOffset = i + 4 + sideInfoSize;
+      const xingTag = buffer.toString('ascii', xingOffset, xingOffset + 4);
+      if ((xingTag === 'Xing' || xingTag === 'Info') && (buffer.readUInt32BE(xingOffset + 4) & 0x01)) {
+        return (buffer.readUInt32BE(xingOffset + 8) * samplesPerFrame) / sampleRate;
+      }
+      if (buffer.toString('ascii', i + 36, i + 40) === 'VBRI') {
+        return (buffer.readUInt32BE(i + 36 + 14) * samplesPerFrame) / sampleRate;
+      }
+
+      // Otherwise assume constant bitrate
+      return ((fileSize - offset - i) * 8) / bitrate;
+    }
+
+    throw new Error('Could not determine MP3 duration');
   }
 }
 
@@ -0,0 +1,202 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE_PATH = process.env.FFPROBE_PATH || "ffprobe";
+
+export interface AudioChunk {
+  path: string;
+  offset: number; // in milliseconds
+  duration: number; // in milliseconds
+}
+
+export interface SplitOptions {
+  maxChunkSeconds?: number;
+  silenceSearchSeconds?: number;
+  silenceNoiseDb?: number;
+  minSilenceSeconds?: number;
+}
+
+const DEFAULT_SPLIT_OPTIONS: Required<SplitOptions> = {
+  // Chunks are re-encoded to 64kbps mono, so ten minutes stays around 5MB
+  maxChunkSeconds: 600,
+  silenceSearchSeconds: 60,
+  silenceNoiseDb: -35,
+  minSilenceSeconds: 0.4
+};
+
+// Aborting `signal` kills the process
+export function runCommand(command: string, args: string[], signal?: AbortSignal): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { signal });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (data) => { stdout += data.toString(); });
+    child.stderr.on('data', (data) => { stderr += data.toString(); });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        reject(new Error(`${command} is not installed or not on PATH.`));
+      } else {
+        reject(error);
+      }
+    });
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve({ stdout, stderr });
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.split('\n').slice(-5).join(' ').trim()}`));
+      }
+    });
+  });
+}
+
+export class AudioSplitter {
+  async probeDuration(audioFilePath: string, signal?: AbortSignal): Promise<number> {
+    const { stdout } = await runCommand(FFPROBE_PATH, [
+      '-v', 'error',
+      '-show_entries', 'format=duration',
+      '-of', 'default=noprint_wrappers=1:nokey=1',
+      audioFilePath
+    ], signal);
+
+    const duration = parseFloat(stdout.trim());
+    if (isNaN(duration) || duration <= 0) {
+      throw new Error('Could not determine audio duration');
+    }
+    return duration;
+  }
+
+  async detectSilences(audioFilePath: string, options: SplitOptions = {}, signal?: AbortSignal): Promise<number[]> {
+    const { silenceNoiseDb, minSilenceSeconds } = { ...DEFAULT_SPLIT_OPTIONS, ...options };
+
+    // silencedetect reports on stderr; the null muxer discards the decoded audio
+    const { stderr } = await runCommand(FFMPEG_PATH, [
+      '-hide_banner', '-nostats',
+      '-i', audioFilePath,
+      '-af', `silencedetect=noise=${silenceNoiseDb}dB:d=${minSilenceSeconds}`,
+      '-f', 'null', '-'
+    ], signal);
+
+    const midpoints: number[] = [];
+    let silenceStart: number | null = null;
+
+    for (const line of stderr.split('\n')) {
+      const startMatch = /silence_start: (-?[\d.]+)/.exec(line);
+      if (startMatch) {
+        silenceStart = Math.max(0, parseFloat(startMatch[1]));
+        continue;
+      }
+
+      const endMatch = /silence_end: ([\d.]+)/.exec(line);
+      if (endMatch && silenceStart !== null) {
+        midpoints.push((silenceStart + parseFloat(endMatch[1])) / 2);
+        silenceStart = null;
+      }
+    }
+
+    return midpoints;
+  }
+
+  planSplitPoints(durationSeconds: number, silences: number[], options: SplitOptions = {}): number[] {
+    const { maxChunkSeconds, silenceSearchSeconds } = { ...DEFAULT_SPLIT_OPTIONS, ...options };
+    const points: number[] = [];
+    let chunkStart = 0;
+
+    while (durationSeconds - chunkStart > maxChunkSeconds) {
+      const limit = chunkStart + maxChunkSeconds;
+
+      // Prefer the latest silence before the limit so no chunk exceeds the maximum
+      const candidates = silences.filter(point => point > limit - silenceSearchSeconds && point <= limit && point > chunkStart);
+      const splitPoint = candidates.length > 0 ? candidates[candidates.length - 1] : limit;
+
+      points.push(splitPoint);
+      chunkStart = splitPoint;
+    }
+
+    return points;
+  }
+
+  // Aborting `signal` stops the running ffmpeg process and removes the chunks written so far
+  async split(audioFilePath: string, options: SplitOptions = {}, signal?: AbortSignal): Promise<AudioChunk[]> {
+    const durationSeconds = await this.probeDuration(audioFilePath, signal);
+    const silences = await this.detectSilences(audioFilePath, options, signal);
+    const splitPoints = this.planSplitPoints(durationSeconds, silences, options);
+    const boundaries = [0, ...splitPoints, durationSeconds];
+
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'audio-chunks-'));
+    const chunks: AudioChunk[] = [];
+
+    try {
+      for (let i = 0; i < boundaries.length - 1; i++) {
+        const start = boundaries[i];
+        const length = boundaries[i + 1] - start;
+        const chunkPath = path.join(outputDir, `chunk-${i.toString().padStart(3, '0')}.mp3`);
+
+        await runCommand(FFMPEG_PATH, [
+          '-hide_banner', '-loglevel', 'error',
+          '-ss', start.toFixed(3),
+          '-t', length.toFixed(3),
+          '-i', audioFilePath,
+          '-vn', '-ac', '1', '-ar', '16000', '-b:a', '64k',
+          '-y', chunkPath
+        ], signal);
+
+        const size = fs.statSync(chunkPath).size;
+        if (size > 25 * 1024 * 1024) {
+          throw new Error(`Audio chunk ${i + 1} is still over 25MB after splitting`);
+        }
+
+        chunks.push({
+          path: chunkPath,
+          offset: Math.round(start * 1000),
+          duration: Math.round(length * 1000)
+        });
+      }
+    } catch (error) {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    return chunks;
+  }
+
+  async convertToWav(audioFilePath: string, outputPath: string, signal?: AbortSignal): Promise<void> {
+    // 16kHz mono PCM is the input format local whisper builds expect
+    await runCommand(FFMPEG_PATH, [
+      '-hide_banner', '-loglevel', 'error',
+      '-i', audioFilePath,
+      '-vn', '-ac', '1', '-ar', '16000', '-c:a', 'pcm_s16le',
+      '-y', outputPath
+    ], signal);
+  }
+
+  cleanup(chunks: AudioChunk[]): void {
+    const directories = new Set<string>();
+
+    for (const chunk of chunks) {
+      try {
+        if (fs.existsSync(chunk.path)) {
+          fs.unlinkSync(chunk.path);
+        }
+        directories.add(path.dirname(chunk.path));
+      } catch (cleanupError) {
+        console.error('Failed to clean up audio chunk:', cleanupError);
+      }
+    }
+
+    directories.forEach(directory => {
+      try {
+        fs.rmSync(directory, { recursive: true, force: true });
+      } catch (cleanupError) {
+        console.error('Failed to clean up chunk directory:', cleanupError);
+      }
+    });
+  }
+}
+
+export const audioSplitter = new AudioSplitter();
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { cueSegmenter, type DraftCue } from "./cue-segmenter";
+
+function draft(startTime: number, endTime: number, japaneseText: string, englishText: string, extra: Partial<DraftCue> = {}): DraftCue {
+  return { startTime, endTime, japaneseText, englishText, language: 'ja', words: null, speaker: null, translationStatus: 'translated', ...extra };
+}
+
+const pick = (cues: DraftCue[]) => cues.map(({ startTime, endTime, japaneseText, englishText, translationStatus }) =>
+  ({ startTime, endTime, japaneseText, englishText, translationStatus }));
+
+test('validateLimits refuses non-positive values and an empty duration range', () => {
+  assert.equal(cueSegmenter.validateLimits({ maxCps: 15 }), null);
+  assert.equal(cueSegmenter.validateLimits({ maxLines: 0 }), 'maxLines must be a positive number');
+  assert.equal(cueSegmenter.validateLimits({ minDuration: 8000 }), 'minDuration must be shorter than maxDuration');
+});
+
+test('wrapText balances lines within the width', () => {
+  assert.equal(
+    cueSegmenter.wrapText('It is a very nice day today and it will probably rain tomorrow.', 42, 2),
+    'It is a very nice day today and\nit will probably rain tomorrow.'
+  );
+  assert.equal(cueSegmenter.wrapText('Short line', 42, 2), 'Short line');
+});
+
+test('a long cue is cut where the source and the translation both break', () => {
+  const cues = cueSegmenter.segment([
+    draft(0, 10000, '今日はとても良い天気ですね。明日はたぶん雨が降るでしょう。', 'It is a very nice day today. It will probably rain tomorrow.')
+  ]);
+
+  assert.deepEqual(pick(cues), [
+    { startTime: 0, endTime: 5000, japaneseText: '今日はとても良い天気ですね。', englishText: 'It is a very nice day today.', translationStatus: 'translated' },
+    { startTime: 5000, endTime: 10000, japaneseText: '明日はたぶん雨が降るでしょう。', englishText: 'It will probably rain tomorrow.', translationStatus: 'translated' }
+  ]);
+});
+
+test('a translation without a matching break stays whole and the second half is left for retry', () => {
+  const cues = cueSegmenter.segment([
+    draft(0, 10000, '今日はとても良い天気ですね。明日はたぶん雨が降るでしょう。', 'Nice weather today probably rain tomorrow maybe')
+  ]);
+
+  assert.deepEqual(pick(cues), [
+    { startTime: 0, endTime: 5000, japaneseText: '今日はとても良い天気ですね。', englishText: 'Nice weather today probably\nrain tomorrow maybe', translationStatus: 'translated' },
+    { startTime: 5000, endTime: 10000, japaneseText: '明日はたぶん雨が降るでしょう。', englishText: '', translationStatus: 'failed' }
+  ]);
+});
+
+test('short cues merge with their neighbour unless the speaker changes', () => {
+  const cues = cueSegmenter.segment([
+    draft(0, 400, 'はい', 'Yes'),
+    draft(500, 1500, 'そうです', 'That is right'),
+    draft(1600, 1900, 'ええ', 'Yeah', { speaker: 'B' })
+  ]);
+
+  assert.deepEqual(cues.map(cue => [cue.startTime, cue.japaneseText, cue.englishText, cue.speaker]), [
+    [0, 'はいそうです', 'Yes That is right', null],
+    [1600, 'ええ', 'Yeah', 'B']
+  ]);
+});
+
+test('a cue too fast to read is stretched into the silence before the next one', () => {
+  const cues = cueSegmenter.segment([
+    draft(0, 500, 'こんにちは', 'Hello there, how have you been doing lately?'),
+    draft(2000, 4000, 'はい', 'Yes')
+  ]);
+
+  assert.equal(cues[0].endTime, 2000);
+  assert.equal(cues[1].endTime, 4000);
+});
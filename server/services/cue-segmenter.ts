@@ -0,0 +1,269 @@
+import type { SubtitleWord } from "@shared/schema";
+import { cueSplitter, type CueSplit } from "./cue-splitter";
+import { languageDetector } from "./language-detector";
+import type { CueTranslationStatus } from "./translation";
+
+export interface ReadabilityLimits {
+  maxCharsPerLine: number;
+  maxLines: number;
+  minDuration: number; // in milliseconds
+  maxDuration: number; // in milliseconds
+  maxCps: number; // characters per second of the translated text
+}
+
+// Common broadcast guidance (e.g. Netflix/BBC English): 42 characters, two lines, 5/6 s to 7 s, 17 CPS
+export const DEFAULT_READABILITY_LIMITS: ReadabilityLimits = {
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  minDuration: 833,
+  maxDuration: 7000,
+  maxCps: 17
+};
+
+// A translated cue on its way to storage
+export interface DraftCue {
+  startTime: number;
+  endTime: number;
+  japaneseText: string;
+  englishText: string;
+  language: string;
+  words: SubtitleWord[] | null;
+  speaker: string | null;
+  translationStatus: CueTranslationStatus;
+}
+
+const MAX_MERGE_GAP = 1000; // ms of silence two cues may be merged across
+const BREAK_AFTER = /[、。，,.!?！？;:…」』)]$/;
+// Where a translation may be cut, strongest first, with the offset of the cut from the match
+const TRANSLATION_BREAKS: [RegExp, number][] = [
+  [/[.!?…](?=\s)/g, 1],
+  [/[,;:](?=\s)/g, 1],
+  [/\s(?=(?:and|but|or|so|because|when|while|which|that|if|although|though)\b)/gi, 0]
+];
+
+export class CueSegmenter {
+  // Returns the first invalid limit, or null when all are usable
+  validateLimits(limits: Partial<ReadabilityLimits>): string | null {
+    for (const [key, value] of Object.entries(limits)) {
+      if (value !== undefined && (typeof value !== 'number' || !isFinite(value) || value <= 0)) {
+        return `${key} must be a positive number`;
+      }
+    }
+    const merged = { ...DEFAULT_READABILITY_LIMITS, ...limits };
+    if (merged.minDuration >= merged.maxDuration) {
+      return 'minDuration must be shorter than maxDuration';
+    }
+    return null;
+  }
+
+  // Splits cues that are too long to read, merges fragments that flash by, then wraps lines
+  // and stretches cues into following silence where the reading speed is still too high
+  segment(cues: DraftCue[], limits: ReadabilityLimits = DEFAULT_READABILITY_LIMITS, durationMs: number = 0): DraftCue[] {
+    const split = cues.flatMap(cue => this.splitCue(cue, limits));
+    const merged = this.mergeShortCues(split, limits);
+
+    return merged.map((cue, index) => {
+      const next = merged[index + 1];
+      const limit = Math.min(
+        next ? next.startTime : Infinity,
+        durationMs > 0 ? durationMs : Infinity,
+        cue.startTime + limits.maxDuration
+      );
+
+      const readingTime = this.textLength(cue.englishText) / limits.maxCps * 1000;
+      const wanted = Math.max(cue.startTime + readingTime, cue.startTime + limits.minDuration);
+      const endTime = Math.max(cue.endTime, Math.min(wanted, limit));
+
+      return {
+        ...cue,
+        endTime: Math.round(endTime),
+        englishText: this.wrapText(cue.englishText, limits.maxCharsPerLine, limits.maxLines)
+      };
+    });
+  }
+
+  // Greedy wrap at the narrowest width that still fits the line budget, so lines come out balanced
+  wrapText(text: string, maxCharsPerLine: number, maxLines: number): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    if (flat.length <= maxCharsPerLine || !flat.includes(' ')) {
+      return flat;
+    }
+
+    const words = flat.split(' ');
+    const lineCount = Math.min(maxLines, Math.ceil(flat.length / maxCharsPerLine));
+    for (let width = Math.ceil(flat.length / lineCount); width <= maxCharsPerLine; width++) {
+      const lines = this.fillLines(words, width);
+      if (lines.length <= lineCount) {
+        return lines.join('\n');
+      }
+    }
+    return this.fillLines(words, maxCharsPerLine).join('\n');
+  }
+
+  private fillLines(words: string[], width: number): string[] {
+    const lines: string[] = [];
+    for (const word of words) {
+      const last = lines[lines.length - 1];
+      if (last !== undefined && last.length + 1 + word.length <= width) {
+        lines[lines.length - 1] = `${last} ${word}`;
+      } else {
+        lines.push(word);
+      }
+    }
+    return lines;
+  }
+
+  private textLength(text: string): number {
+    return text.replace(/\s+/g, ' ').trim().length;
+  }
+
+  private isTooLong(cue: DraftCue, limits: ReadabilityLimits): boolean {
+    return this.textLength(cue.englishText) > limits.maxCharsPerLine * limits.maxLines ||
+      cue.endTime - cue.startTime > limits.maxDuration;
+  }
+
+  private splitCue(cue: DraftCue, limits: ReadabilityLimits): DraftCue[] {
+    // Failed cues are kept whole so the retry translates exactly what was transcribed
+    if (!this.isTooLong(cue, limits) || cue.translationStatus === 'failed' ||
+        cue.endTime - cue.startTime < limits.minDuration * 2) {
+      return [cue];
+    }
+
+    const best = this.findBestSplit(cue, limits);
+    if (!best) {
+      return [cue];
+    }
+
+    const [first, second] = best.split.parts;
+    if (!best.aligned) {
+      // No clean break in the translation lines up with the source cut: rather than pair the second
+      // half with part of a clause, the translation stays on the first cue and the second is left
+      // for re-translation
+      return [
+        { ...cue, ...first, englishText: cue.englishText },
+        { ...cue, ...second, englishText: '', translationStatus: 'failed' }
+      ];
+    }
+
+    return [first, second].flatMap(part => this.splitCue({ ...cue, ...part }, limits));
+  }
+
+  // Tries every word boundary (or the midpoint without word timings) and prefers a cut after
+  // punctuation close to the middle of the cue. A cut whose translation has a matching break is
+  // always preferred; `aligned` is false when no candidate has one.
+  private findBestSplit(cue: DraftCue, limits: ReadabilityLimits): { split: CueSplit; aligned: boolean } | null {
+    const candidates = cue.words && cue.words.length > 1
+      ? cue.words.slice(1).map(word => word.start)
+      : [(cue.startTime + cue.endTime) / 2];
+
+    let best: CueSplit | null = null;
+    let bestScore = Infinity;
+    let unaligned: CueSplit | null = null;
+    let unalignedScore = Infinity;
+
+    for (const at of candidates) {
+      if (at - cue.startTime < limits.minDuration || cue.endTime - at < limits.minDuration) continue;
+
+      let split;
+      try {
+        split = cueSplitter.split(cue, at);
+      } catch {
+        continue;
+      }
+
+      const [first, second] = split.parts;
+      if (!first.japaneseText || !second.japaneseText) continue;
+
+      let score = Math.abs(split.ratio - 0.5);
+      if (BREAK_AFTER.test(first.japaneseText)) score -= 0.25;
+
+      const translation = this.splitTranslation(cue.englishText, split.ratio);
+      if (!translation) {
+        if (score < unalignedScore) {
+          unaligned = split;
+          unalignedScore = score;
+        }
+        continue;
+      }
+
+      [first.englishText, second.englishText] = translation;
+      if (BREAK_AFTER.test(first.englishText)) score -= 0.25;
+
+      if (score < bestScore) {
+        best = split;
+        bestScore = score;
+      }
+    }
+
+    if (best) {
+      return { split: best, aligned: true };
+    }
+    return unaligned ? { split: unaligned, aligned: false } : null;
+  }
+
+  // Translations have no timings and their word order differs from the source, so they are only cut
+  // at a break of their own near the source's cut point: a sentence end, then a clause break, then
+  // the space before a conjunction. Returns null when none is close enough.
+  private splitTranslation(text: string, ratio: number): [string, string] | null {
+    const target = text.length * ratio;
+    const window = text.length * 0.15;
+
+    for (const [boundary, offset] of TRANSLATION_BREAKS) {
+      let best = -1;
+      for (const match of Array.from(text.matchAll(boundary))) {
+        const cut = match.index! + offset;
+        if (Math.abs(cut - target) <= window && (best === -1 || Math.abs(cut - target) < Math.abs(best - target))) {
+          best = cut;
+        }
+      }
+      if (best !== -1) {
+        const parts: [string, string] = [text.slice(0, best).trim(), text.slice(best).trim()];
+        if (parts[0] && parts[1]) {
+          return parts;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private mergeShortCues(cues: DraftCue[], limits: ReadabilityLimits): DraftCue[] {
+    const result: DraftCue[] = [];
+
+    for (const cue of cues) {
+      const previous = result[result.length - 1];
+      const isShort = (c: DraftCue) => c.endTime - c.startTime < limits.minDuration;
+
+      if (previous && (isShort(previous) || isShort(cue)) && this.canMerge(previous, cue, limits)) {
+        result[result.length - 1] = this.merge(previous, cue);
+      } else {
+        result.push(cue);
+      }
+    }
+
+    return result;
+  }
+
+  private canMerge(first: DraftCue, second: DraftCue, limits: ReadabilityLimits): boolean {
+    return first.speaker === second.speaker &&
+      first.language === second.language &&
+      second.startTime - first.endTime <= MAX_MERGE_GAP &&
+      second.endTime - first.startTime <= limits.maxDuration &&
+      this.textLength(`${first.englishText} ${second.englishText}`) <= limits.maxCharsPerLine * limits.maxLines &&
+      first.translationStatus === 'translated' &&
+      second.translationStatus === 'translated';
+  }
+
+  private merge(first: DraftCue, second: DraftCue): DraftCue {
+    const separator = languageDetector.wordSeparator(first.language);
+    return {
+      ...first,
+      endTime: second.endTime,
+      japaneseText: `${first.japaneseText}${separator}${second.japaneseText}`,
+      englishText: `${first.englishText} ${second.englishText}`,
+      words: first.words || second.words ? [...(first.words || []), ...(second.words || [])] : null
+    };
+  }
+}
+
+export const cueSegmenter = new CueSegmenter();
@@ -0,0 +1,120 @@
+import type { Subtitle, SubtitleWord } from "@shared/schema";
+
+export interface CuePart {
+  startTime: number;
+  endTime: number;
+  japaneseText: string;
+  englishText: string;
+  words: SubtitleWord[] | null;
+}
+
+// Anything with timing and text can be split, stored or not
+export type SplittableCue = Pick<Subtitle, 'startTime' | 'endTime' | 'japaneseText' | 'englishText' | 'words'>;
+
+export interface CueSplit {
+  parts: [CuePart, CuePart];
+  ratio: number; // share of the text in the first part, for splitting other tracks
+}
+
+export class CueSplitter {
+  // Moves a split time onto the nearest word boundary so no word is cut in half
+  snapToWordBoundary(words: SubtitleWord[], at: number): number {
+    let best = at;
+    let bestDistance = Infinity;
+
+    for (const word of words.slice(1)) {
+      const distance = Math.abs(word.start - at);
+      if (distance < bestDistance) {
+        best = word.start;
+        bestDistance = distance;
+      }
+    }
+
+    return best;
+  }
+
+  split(subtitle: SplittableCue, at: number): CueSplit {
+    const words = subtitle.words && subtitle.words.length > 1 ? subtitle.words : null;
+    const splitTime = words ? this.snapToWordBoundary(words, at) : at;
+
+    if (splitTime <= subtitle.startTime || splitTime >= subtitle.endTime) {
+      throw new Error('Split point must fall inside the cue');
+    }
+
+    let sources: [string, string];
+    let wordParts: [SubtitleWord[] | null, SubtitleWord[] | null] = [null, null];
+
+    if (words) {
+      const firstWords = words.filter(word => word.start < splitTime);
+      wordParts = [firstWords, words.filter(word => word.start >= splitTime)];
+      sources = this.splitAfterWords(subtitle, firstWords, words.length);
+    } else {
+      // Without word timings, cut the text in proportion to time
+      sources = this.splitText(subtitle.japaneseText, (splitTime - subtitle.startTime) / (subtitle.endTime - subtitle.startTime));
+    }
+
+    // Translations have no timings of their own, so they are cut where the source text was cut,
+    // which the snap to punctuation may have moved away from the split time
+    const ratio = textLength(sources[0]) / Math.max(1, textLength(sources[0]) + textLength(sources[1]));
+    const translations = this.splitText(subtitle.englishText, ratio);
+
+    return {
+      ratio,
+      parts: [
+        { startTime: subtitle.startTime, endTime: splitTime, japaneseText: sources[0], englishText: translations[0], words: wordParts[0] },
+        { startTime: splitTime, endTime: subtitle.endTime, japaneseText: sources[1], englishText: translations[1], words: wordParts[1] }
+      ]
+    };
+  }
+
+  // Cuts text near `ratio` of its length, preferring a space or punctuation so words stay whole
+  splitText(text: string, ratio: number): [string, string] {
+    const characters = Array.from(text);
+    const target = Math.round(characters.length * ratio);
+    const breakable = /[\s、。，,.!?！？]/;
+
+    let cut = target;
+    for (let offset = 0; offset <= characters.length; offset++) {
+      if (breakable.test(characters[target + offset - 1] || '')) {
+        cut = target + offset;
+        break;
+      }
+      if (target - offset > 0 && breakable.test(characters[target - offset - 1] || '')) {
+        cut = target - offset;
+        break;
+      }
+    }
+
+    return [characters.slice(0, cut).join('').trim(), characters.slice(cut).join('').trim()];
+  }
+
+  // Word timings usually omit punctuation, so the cut is located in the original text rather than
+  // rebuilding the text from the words
+  private splitAfterWords(subtitle: SplittableCue, firstWords: SubtitleWord[], totalWords: number): [string, string] {
+    const text = subtitle.japaneseText;
+    let cursor = 0;
+
+    for (const word of firstWords) {
+      const index = text.indexOf(word.text, cursor);
+      if (index !== -1) {
+        cursor = index + word.text.length;
+      }
+    }
+
+    if (cursor === 0) {
+      return this.splitText(text, firstWords.length / totalWords);
+    }
+
+    // Keep trailing punctuation with the words it belongs to
+    while (cursor < text.length && /[、。，,.!?！？」』)]/.test(text[cursor])) {
+      cursor++;
+    }
+    return [text.slice(0, cursor).trim(), text.slice(cursor).trim()];
+  }
+}
+
+function textLength(text: string): number {
+  return Array.from(text).length;
+}
+
+export const cueSplitter = new CueSplitter();
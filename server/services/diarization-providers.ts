@@ -0,0 +1,124 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { runCommand } from "./audio-splitter";
+
+export interface SpeakerTurn {
+  start: number; // in milliseconds
+  end: number; // in milliseconds
+  speaker: string; // label reported by the diarizer, e.g. SPEAKER_00
+}
+
+export interface DiarizationProvider {
+  readonly name: string;
+  // Aborting `signal` stops the diarizer when the job is cancelled
+  diarize(audioFilePath: string, signal?: AbortSignal): Promise<SpeakerTurn[]>;
+}
+
+// Distinct colors handed out to speakers in order of first appearance
+export const SPEAKER_COLORS = ['#2563EB', '#DC2626', '#16A34A', '#D97706', '#9333EA', '#0891B2', '#DB2777', '#65A30D'];
+
+// Picks the speaker who talks longest during each segment; segments no turn overlaps
+// (e.g. diarizer and ASR disagree on a pause) go to the nearest turn
+export function assignSpeakers(segments: { start: number; end: number }[], turns: SpeakerTurn[]): (string | null)[] {
+  return segments.map(segment => {
+    if (turns.length === 0) {
+      return null;
+    }
+
+    const overlap = new Map<string, number>();
+    for (const turn of turns) {
+      const shared = Math.min(segment.end, turn.end) - Math.max(segment.start, turn.start);
+      if (shared > 0) {
+        overlap.set(turn.speaker, (overlap.get(turn.speaker) || 0) + shared);
+      }
+    }
+
+    if (overlap.size > 0) {
+      return Array.from(overlap.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    }
+
+    const distance = (turn: SpeakerTurn) => Math.max(turn.start - segment.end, segment.start - turn.end);
+    return turns.reduce((nearest, turn) => distance(turn) < distance(nearest) ? turn : nearest).speaker;
+  });
+}
+
+// Runs a local diarization command (e.g. a pyannote.audio script) so audio never leaves the machine.
+// Configured with LOCAL_DIARIZATION_BINARY, called as `<binary> <audio file> <output.rttm>`.
+export class LocalDiarizationProvider implements DiarizationProvider {
+  readonly name = 'local';
+  private binary = process.env.LOCAL_DIARIZATION_BINARY || 'diarize';
+
+  async diarize(audioFilePath: string, signal?: AbortSignal): Promise<SpeakerTurn[]> {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diarization-'));
+
+    try {
+      const outputPath = path.join(workDir, 'output.rttm');
+      await runCommand(this.binary, [audioFilePath, outputPath], signal);
+
+      if (!fs.existsSync(outputPath)) {
+        throw new Error('Local diarization did not produce an RTTM file');
+      }
+
+      return this.parseRTTM(fs.readFileSync(outputPath, 'utf8'));
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  // RTTM: SPEAKER <file> <channel> <onset s> <duration s> <NA> <NA> <speaker> <NA> <NA>
+  private parseRTTM(content: string): SpeakerTurn[] {
+    return content
+      .split('\n')
+      .map(line => line.trim().split(/\s+/))
+      .filter(fields => fields[0] === 'SPEAKER' && fields.length >= 8)
+      .map(fields => {
+        const start = parseFloat(fields[3]) * 1000;
+        return { start, end: start + parseFloat(fields[4]) * 1000, speaker: fields[7] };
+      })
+      .filter(turn => !isNaN(turn.start) && !isNaN(turn.end))
+      .sort((a, b) => a.start - b.start);
+  }
+}
+
+// Returns fixed turns matching the fixture transcript so speaker features can be exercised offline.
+// Loads DIARIZATION_FIXTURE_PATH (a SpeakerTurn[] JSON file) when set.
+export class FixtureDiarizationProvider implements DiarizationProvider {
+  readonly name = 'fixture';
+
+  async diarize(): Promise<SpeakerTurn[]> {
+    const fixturePath = process.env.DIARIZATION_FIXTURE_PATH;
+    if (fixturePath) {
+      return JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+    }
+
+    return [
+      { start: 0, end: 2500, speaker: 'SPEAKER_00' },
+      { start: 2500, end: 5000, speaker: 'SPEAKER_01' },
+      { start: 5000, end: 8000, speaker: 'SPEAKER_00' }
+    ];
+  }
+}
+
+const diarizationProviders: Record<string, () => DiarizationProvider> = {
+  local: () => new LocalDiarizationProvider(),
+  fixture: () => new FixtureDiarizationProvider()
+};
+
+const providerCache = new Map<string, DiarizationProvider>();
+
+export function getDiarizationProviderNames(): string[] {
+  return Object.keys(diarizationProviders);
+}
+
+export function getDiarizationProvider(name: string): DiarizationProvider {
+  const factory = diarizationProviders[name];
+  if (!factory) {
+    throw new Error(`Unknown diarization provider: ${name}`);
+  }
+
+  if (!providerCache.has(name)) {
+    providerCache.set(name, factory());
+  }
+  return providerCache.get(name)!;
+}
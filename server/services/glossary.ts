@@ -0,0 +1,58 @@
+import type { Subtitle } from "@shared/schema";
+
+export interface GlossaryEntry {
+  sourceTerm: string;
+  targetTerm: string;
+  notes?: string | null;
+}
+
+export interface GlossaryViolation {
+  subtitleId: number;
+  sourceTerm: string;
+  targetTerm: string;
+}
+
+export class GlossaryService {
+  // Only terms that occur in the text are sent, which keeps prompts short on large glossaries
+  relevantTerms(text: string, glossary: GlossaryEntry[] = []): GlossaryEntry[] {
+    return glossary.filter(term => term.sourceTerm && text.includes(term.sourceTerm));
+  }
+
+  buildPromptInstructions(terms: GlossaryEntry[]): string {
+    if (terms.length === 0) {
+      return '';
+    }
+
+    const lines = terms.map(term =>
+      `- "${term.sourceTerm}" must be translated as "${term.targetTerm}"${term.notes ? ` (${term.notes})` : ''}`
+    );
+    return `Use these required glossary renderings exactly:\n${lines.join('\n')}`;
+  }
+
+  // Engines without a prompt get the required rendering substituted into the source text
+  applyToSource(text: string, terms: GlossaryEntry[]): string {
+    // Longest terms first so a shorter term never splits a longer one
+    return [...terms]
+      .sort((a, b) => b.sourceTerm.length - a.sourceTerm.length)
+      .reduce((result, term) => result.split(term.sourceTerm).join(term.targetTerm), text);
+  }
+
+  // Terms whose source appears in the text but whose required rendering is absent from the translation
+  missingTerms(sourceText: string, translatedText: string, glossary: GlossaryEntry[] = []): GlossaryEntry[] {
+    const translation = translatedText.toLowerCase();
+    return this.relevantTerms(sourceText, glossary)
+      .filter(term => !translation.includes(term.targetTerm.toLowerCase()));
+  }
+
+  findViolations(subtitles: Subtitle[], glossary: GlossaryEntry[]): GlossaryViolation[] {
+    return subtitles.flatMap(subtitle =>
+      this.missingTerms(subtitle.japaneseText, subtitle.englishText, glossary).map(term => ({
+        subtitleId: subtitle.id,
+        sourceTerm: term.sourceTerm,
+        targetTerm: term.targetTerm
+      }))
+    );
+  }
+}
+
+export const glossaryService = new GlossaryService();
@@ -0,0 +1,220 @@
+import fs from "fs";
+import os from "os";
+import type { ProcessingJob } from "@shared/schema";
+import { storage } from "../storage";
+
+// Abort reason for a job still running when a drain's time budget runs out
+export class JobDeadlineError extends Error {
+  constructor() {
+    super('Processing did not finish in the time allowed for one request. Retry the job to continue from its last completed stage.');
+    this.name = 'JobDeadlineError';
+  }
+}
+
+// `signal` is aborted when the job is cancelled, this worker loses its lease or a drain runs out of time
+export type JobHandler = (job: ProcessingJob, signal: AbortSignal) => Promise<void>;
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Configured with JOB_LEASE_MS, JOB_POLL_INTERVAL_MS, JOB_MAX_ATTEMPTS and JOB_UPLOAD_RETENTION_MS
+const LEASE_MS = readNumber('JOB_LEASE_MS', 60000);
+const POLL_INTERVAL_MS = readNumber('JOB_POLL_INTERVAL_MS', 2000);
+const MAX_ATTEMPTS = readNumber('JOB_MAX_ATTEMPTS', 3);
+const UPLOAD_RETENTION_MS = readNumber('JOB_UPLOAD_RETENTION_MS', 7 * 24 * 60 * 60 * 1000);
+const UPLOAD_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Processing jobs live in storage rather than in memory: a worker claims the oldest queued job,
+// holds a lease on it and renews the lease while it runs. A job whose lease runs out belonged to a
+// worker that died, so it is put back in the queue (or failed once it has used up its attempts).
+export class JobQueue {
+  readonly workerId = `${os.hostname()}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+  private handler: JobHandler | null = null;
+  private started = false;
+  private polling = false;
+  private timer: NodeJS.Timeout | null = null;
+  private controllers = new Map<number, AbortController>();
+  private lastUploadSweep = 0;
+
+  setHandler(handler: JobHandler): void {
+    this.handler = handler;
+  }
+
+  // True when this process runs the background worker loop
+  isRunning(): boolean {
+    return this.started;
+  }
+
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    console.log(`Job worker ${this.workerId} started`);
+    this.poll();
+  }
+
+  stop(): void {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Wakes the worker loop after a job is queued instead of waiting for the next poll
+  notify(): void {
+    if (this.started && !this.polling) {
+      this.poll();
+    }
+  }
+
+  // Stops a job running in this process; returns false when it is not running here
+  abort(jobId: number): boolean {
+    const controller = this.controllers.get(jobId);
+    if (!controller) {
+      return false;
+    }
+    controller.abort(new Error('Processing job was cancelled'));
+    return true;
+  }
+
+  // Claims and runs a single job, aborting it at `deadline` when one is given; resolves false when
+  // the queue is empty
+  async runNext(deadline?: number): Promise<boolean> {
+    if (!this.handler) {
+      throw new Error('No job handler registered');
+    }
+
+    const job = await storage.claimProcessingJob(this.workerId, LEASE_MS);
+    if (!job) {
+      return false;
+    }
+
+    await this.run(job, deadline);
+    return true;
+  }
+
+  // For hosts that stop the process once a response is sent (serverless): runs queued jobs inside
+  // the calling request until the queue is empty or the time budget is spent. A job still running
+  // at the end of the budget is aborted, so it cannot outlive the request and be claimed again.
+  async drain(budgetMs: number): Promise<number> {
+    await this.recoverOrphanedJobs();
+    await this.removeExpiredUploads();
+
+    const deadline = Date.now() + budgetMs;
+    let processed = 0;
+    while (Date.now() < deadline && await this.runNext(deadline)) {
+      processed++;
+    }
+    return processed;
+  }
+
+  async recoverOrphanedJobs(): Promise<void> {
+    for (const job of await storage.getOrphanedProcessingJobs()) {
+      const uploadKept = !!job.filePath && fs.existsSync(job.filePath);
+      // A saved transcript is all a job needs to carry on without the audio
+      const resumable = uploadKept || !!(await storage.getJobCheckpoint(job.id, 'transcription'));
+
+      if (resumable && job.attempts < MAX_ATTEMPTS) {
+        console.warn(`Requeueing orphaned processing job ${job.id} after ${job.attempts} attempt(s)`);
+        await storage.updateProcessingJob(job.id, { status: 'queued', leaseOwner: null, leaseExpiresAt: null });
+        continue;
+      }
+
+      console.warn(`Failing orphaned processing job ${job.id}`);
+      await storage.updateProcessingJob(job.id, {
+        status: 'failed',
+        error: resumable
+          ? `Processing was interrupted ${job.attempts} times without finishing`
+          : 'Processing was interrupted and the uploaded audio is no longer available',
+        leaseOwner: null,
+        leaseExpiresAt: null
+      });
+      // The upload is kept so the job can still be resumed by hand, until removeExpiredUploads
+      await storage.updateAudioFileStatus(job.audioFileId, 'failed');
+    }
+  }
+
+  // A job that failed before its transcript was saved keeps its upload so it can be resumed; after
+  // UPLOAD_RETENTION_MS the upload is deleted and the file has to be uploaded again
+  async removeExpiredUploads(): Promise<void> {
+    if (Date.now() - this.lastUploadSweep < UPLOAD_SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastUploadSweep = Date.now();
+
+    for (const job of await storage.getFailedProcessingJobsWithUploads(new Date(Date.now() - UPLOAD_RETENTION_MS))) {
+      if (job.filePath && fs.existsSync(job.filePath)) {
+        fs.unlinkSync(job.filePath);
+      }
+      await storage.updateProcessingJob(job.id, { filePath: null });
+    }
+  }
+
+  private async poll(): Promise<void> {
+    this.polling = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    try {
+      await this.recoverOrphanedJobs();
+      await this.removeExpiredUploads();
+      while (this.started && await this.runNext()) {
+        // Keep going until the queue is empty
+      }
+    } catch (error) {
+      console.error('Job worker poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+
+    if (this.started) {
+      this.timer = setTimeout(() => this.poll(), POLL_INTERVAL_MS);
+    }
+  }
+
+  private async run(job: ProcessingJob, deadline?: number): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+
+    const timeout = deadline === undefined
+      ? null
+      : setTimeout(() => controller.abort(new JobDeadlineError()), Math.max(0, deadline - Date.now()));
+
+    // A lost lease means the job was cancelled from another process or handed to another worker
+    const heartbeat = setInterval(() => {
+      storage.renewProcessingJobLease(job.id, this.workerId, LEASE_MS)
+        .then(held => {
+          if (!held && !controller.signal.aborted) {
+            console.warn(`Job worker ${this.workerId} no longer holds processing job ${job.id}`);
+            controller.abort(new Error('Processing job was cancelled or taken over by another worker'));
+          }
+        })
+        .catch(error => console.error(`Heartbeat for processing job ${job.id} failed:`, error));
+    }, LEASE_MS / 3);
+
+    try {
+      await this.handler!(job, controller.signal);
+    } catch (error) {
+      // Handlers record their own failures; this only catches what slipped past them
+      console.error(`Processing job ${job.id} failed:`, error);
+      await storage.updateProcessingJob(job.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown processing error'
+      }).catch(updateError => console.error('Failed to update processing job:', updateError));
+    } finally {
+      clearInterval(heartbeat);
+      if (timeout) {
+        clearTimeout(timeout);
+      }
+      this.controllers.delete(job.id);
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,96 @@
+const KANA = /[\u3040-\u30ff\uff66-\uff9f]/g;
+const HAN = /[\u3400-\u4dbf\u4e00-\u9fff]/g;
+const HANGUL = /[\uac00-\ud7af\u1100-\u11ff\u3130-\u318f]/g;
+const LATIN = /[A-Za-z\u00c0-\u024f]/g;
+// Common Chinese characters (simplified and traditional) that Japanese text rarely uses
+const CHINESE_ONLY = /[\u7684\u4eec\u9019\u8fd9\u4e48\u9ebc\u8bf4\u8aaa\u6ca1\u6c92\u5417\u55ce\u5462\u5427\u54ea\u513f\u5152\u4e2a]/;
+
+// Frequent function words, enough to tell the supported Latin-script languages apart on a single cue
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'you', 'i', 'it', 'to', 'of', 'that', 'this', 'we', 'was', 'what', 'so', 'yeah', 'okay'],
+  es: ['el', 'la', 'los', 'las', 'que', 'y', 'es', 'en', 'un', 'una', 'por', 'pero', 'muy', 'sí', 'no', 'está'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'un', 'une', 'je', 'vous', 'nous', 'pas', 'que', 'oui', 'c\'est', 'très'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'ich', 'nicht', 'ein', 'eine', 'sie', 'wir', 'ja', 'auch', 'sehr'],
+  pt: ['o', 'a', 'os', 'as', 'que', 'e', 'é', 'um', 'uma', 'não', 'com', 'para', 'muito', 'você', 'sim'],
+  it: ['il', 'lo', 'la', 'gli', 'che', 'e', 'è', 'un', 'una', 'non', 'per', 'sono', 'molto', 'sì', 'io']
+};
+
+// Whisper reports the detected language by name
+const WHISPER_LANGUAGE_NAMES: Record<string, string> = {
+  japanese: 'ja',
+  english: 'en',
+  chinese: 'zh',
+  korean: 'ko',
+  spanish: 'es',
+  french: 'fr',
+  german: 'de',
+  portuguese: 'pt',
+  italian: 'it'
+};
+
+function count(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+export class LanguageDetector {
+  // Accepts either an ISO 639-1 code or a Whisper language name
+  normalizeCode(language?: string | null): string | undefined {
+    if (!language) {
+      return undefined;
+    }
+    const lower = language.trim().toLowerCase();
+    return WHISPER_LANGUAGE_NAMES[lower] || (lower.length === 2 ? lower : undefined);
+  }
+
+  // Script-based detection; `fallback` is used when the text carries no usable signal,
+  // e.g. a cue of numbers, punctuation or a bare name
+  detect(text: string, fallback: string = 'ja'): string {
+    const kana = count(text, KANA);
+    const han = count(text, HAN);
+    const hangul = count(text, HANGUL);
+    const latin = count(text, LATIN);
+
+    if (kana > 0 && kana + han >= latin) {
+      return 'ja';
+    }
+    if (hangul > 0 && hangul >= latin) {
+      return 'ko';
+    }
+    if (han > 0 && han >= latin) {
+      // Kanji-only cues are common in Japanese speech, so defer to the surrounding language
+      // unless the cue uses characters Japanese does not
+      return fallback === 'ja' && !CHINESE_ONLY.test(text) ? 'ja' : 'zh';
+    }
+    if (latin > 0) {
+      return this.detectLatin(text, fallback);
+    }
+    return fallback;
+  }
+
+  // Japanese and Chinese are written without spaces between words
+  wordSeparator(language?: string | null): string {
+    return language === 'ja' || language === 'zh' ? '' : ' ';
+  }
+
+  private detectLatin(text: string, fallback: string): string {
+    const words = text.toLowerCase().match(/[a-z\u00c0-\u024f']+/g) || [];
+    let best = '';
+    let bestScore = 0;
+
+    for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+      const score = words.filter(word => stopwords.includes(word)).length;
+      if (score > bestScore) {
+        best = language;
+        bestScore = score;
+      }
+    }
+
+    if (best) {
+      return best;
+    }
+    // Without function words (names, single words) keep a Latin fallback, otherwise assume English
+    return Object.keys(STOPWORDS).includes(fallback) ? fallback : 'en';
+  }
+}
+
+export const languageDetector = new LanguageDetector();
@@ -0,0 +1,229 @@
+export interface SchedulerOptions {
+  concurrency: number; // requests allowed in flight at once
+  requestsPerMinute: number; // token bucket refill rate; 0 disables rate limiting
+  maxRetries: number;
+  baseDelay: number; // in milliseconds, doubled on every retry
+  maxDelay: number; // in milliseconds
+}
+
+export interface ScheduleOptions {
+  retries?: number;
+  label?: string; // used in retry log lines
+  signal?: AbortSignal; // rejects queued and waiting requests once aborted
+}
+
+// Thrown by fetch-based providers so the scheduler can see the status and Retry-After header,
+// the same way it reads OpenAI's APIError
+export class RequestError extends Error {
+  constructor(message: string, readonly status: number, readonly headers?: Headers) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+// Client errors other than timeouts, conflicts and rate limits will fail the same way again
+const RETRYABLE_STATUSES = [408, 409, 429];
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function readHeader(headers: any, name: string): string | null {
+  if (!headers) {
+    return null;
+  }
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+  return value === undefined || value === null ? null : String(value);
+}
+
+// Milliseconds the server asked us to wait, from retry-after-ms or Retry-After (seconds or an HTTP date)
+export function getRetryAfter(error: unknown): number | null {
+  const headers = (error as any)?.headers;
+
+  const ms = parseFloat(readHeader(headers, 'retry-after-ms') || '');
+  if (!isNaN(ms) && ms >= 0) {
+    return ms;
+  }
+
+  const value = readHeader(headers, 'retry-after');
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function isRetryable(error: unknown): boolean {
+  const status = (error as any)?.status;
+  // No status means a network failure or a malformed response, both worth another try
+  if (typeof status !== 'number') {
+    return true;
+  }
+  return status >= 500 || RETRYABLE_STATUSES.includes(status);
+}
+
+// Caps concurrent requests to a provider, spaces them with a token bucket and retries failures with
+// jittered exponential backoff. A Retry-After from the server pauses every queued request, not just
+// the one that was rejected, so a rate limit is not hammered by the rest of the batch.
+export class RequestScheduler {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+
+  constructor(readonly name: string, private options: SchedulerOptions) {
+    this.tokens = this.capacity;
+  }
+
+  async schedule<T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const retries = options.retries ?? this.options.maxRetries;
+    const signal = options.signal;
+
+    for (let attempt = 0; ; attempt++) {
+      let delay: number;
+
+      signal?.throwIfAborted();
+      await this.acquireSlot(signal);
+      try {
+        await this.takeToken(signal);
+        signal?.throwIfAborted();
+        return await task();
+      } catch (error) {
+        if (signal?.aborted || attempt >= retries || !isRetryable(error)) {
+          throw error;
+        }
+
+        const retryAfter = getRetryAfter(error);
+        if (retryAfter !== null) {
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfter);
+        }
+        delay = retryAfter ?? this.backoff(attempt);
+        console.warn(
+          `${options.label || this.name} attempt ${attempt + 1} failed, retrying in ${Math.round(delay)} ms:`,
+          error instanceof Error ? error.message : error
+        );
+      } finally {
+        this.releaseSlot();
+      }
+
+      await sleep(delay, signal);
+    }
+  }
+
+  private get capacity(): number {
+    return Math.max(1, this.options.concurrency);
+  }
+
+  // Random jitter keeps the retries from a failed burst from arriving together
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.options.maxDelay, this.options.baseDelay * Math.pow(2, attempt));
+    return this.options.baseDelay / 2 + Math.random() * ceiling;
+  }
+
+  private acquireSlot(signal?: AbortSignal): Promise<void> {
+    if (this.active < this.capacity) {
+      this.active++;
+      return Promise.resolve();
+    }
+    // The slot is handed over directly by releaseSlot, so `active` stays unchanged. An aborted
+    // caller leaves the queue straight away instead of waiting for its turn.
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(waiter => waiter !== take);
+        reject(signal!.reason);
+      };
+      const take = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.waiting.push(take);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async takeToken(signal?: AbortSignal): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now, signal);
+        continue;
+      }
+
+      if (this.options.requestsPerMinute <= 0) {
+        return;
+      }
+
+      const perMs = this.options.requestsPerMinute / 60000;
+      this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * perMs);
+      this.lastRefill = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) / perMs), signal);
+    }
+  }
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function fromEnv(prefix: string, defaults: SchedulerOptions): SchedulerOptions {
+  return {
+    concurrency: readNumber(`${prefix}_CONCURRENCY`, defaults.concurrency),
+    requestsPerMinute: readNumber(`${prefix}_REQUESTS_PER_MINUTE`, defaults.requestsPerMinute),
+    maxRetries: readNumber(`${prefix}_MAX_RETRIES`, defaults.maxRetries),
+    baseDelay: defaults.baseDelay,
+    maxDelay: defaults.maxDelay
+  };
+}
+
+// Shared by every translation request, whichever provider serves it.
+// Configured with TRANSLATION_CONCURRENCY, TRANSLATION_REQUESTS_PER_MINUTE and TRANSLATION_MAX_RETRIES.
+export const translationScheduler = new RequestScheduler('Translation', fromEnv('TRANSLATION', {
+  concurrency: 4,
+  requestsPerMinute: 300,
+  maxRetries: 2,
+  baseDelay: 1000,
+  maxDelay: 30000
+}));
+
+// Shared by every transcription request (one per audio chunk).
+// Configured with TRANSCRIPTION_CONCURRENCY, TRANSCRIPTION_REQUESTS_PER_MINUTE and TRANSCRIPTION_MAX_RETRIES.
+export const transcriptionScheduler = new RequestScheduler('Transcription', fromEnv('TRANSCRIPTION', {
+  concurrency: 2,
+  requestsPerMinute: 40,
+  maxRetries: 2,
+  baseDelay: 2000,
+  maxDelay: 60000
+}));
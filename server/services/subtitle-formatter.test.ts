@@ -0,0 +1,121 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { subtitleFormatter } from "./subtitle-formatter";
+import type { Subtitle } from "@shared/schema";
+
+function cue(id: number, startTime: number, endTime: number, japaneseText: string, englishText: string, extra: Partial<Subtitle> = {}): Subtitle {
+  return {
+    id,
+    audioFileId: 1,
+    startTime,
+    endTime,
+    japaneseText,
+    englishText,
+    language: 'ja',
+    words: null,
+    speakerId: null,
+    translationStatus: 'translated',
+    createdAt: new Date(),
+    ...extra
+  };
+}
+
+test('formatTimestamp pads every field and clamps negative times', () => {
+  assert.equal(subtitleFormatter.formatTimestamp(3_723_045, ','), '01:02:03,045');
+  assert.equal(subtitleFormatter.formatTimestamp(-20, '.'), '00:00:00.000');
+});
+
+test('SRT numbers cues in order and marks named speakers with a dash', () => {
+  const srt = subtitleFormatter.generateSRT([
+    cue(1, 0, 1500, 'こんにちは', 'Hello', { speakerId: 3 }),
+    cue(2, 2000, 3000, 'ありがとう', 'Thank you')
+  ], { speakerNames: { 3: 'Aiko' } });
+
+  assert.equal(srt, [
+    '1',
+    '00:00:00,000 --> 00:00:01,500',
+    '- Aiko: Hello',
+    '',
+    '2',
+    '00:00:02,000 --> 00:00:03,000',
+    'Thank you',
+    ''
+  ].join('\n'));
+});
+
+test('bilingual mode stacks both languages in the requested order', () => {
+  const subtitles = [cue(1, 0, 1000, 'こんにちは', 'Hello')];
+
+  assert.match(subtitleFormatter.generateSRT(subtitles, { mode: 'bilingual' }), /こんにちは\nHello/);
+  assert.match(subtitleFormatter.generateSRT(subtitles, { mode: 'bilingual', order: 'en-ja' }), /Hello\nこんにちは/);
+  assert.match(subtitleFormatter.generateSRT(subtitles, { mode: 'japanese' }), /\nこんにちは\n$/);
+});
+
+test('WebVTT writes notes, cue settings and escaped voice and text', () => {
+  const vtt = subtitleFormatter.generateVTT([cue(1, 0, 1000, 'こんにちは', 'Tom & <Jerry>', { speakerId: 1 })], {
+    notes: ['Source: a --> b', '  '],
+    cueSettings: { position: 120, line: '90%', align: 'center' },
+    speakerNames: { 1: 'A<B>' }
+  });
+
+  assert.equal(vtt, [
+    'WEBVTT',
+    '',
+    'NOTE\nSource: a -> b',
+    '',
+    '1\n00:00:00.000 --> 00:00:01.000 position:100% line:90% align:center\n<v A&lt;B&gt;>Tom &amp; &lt;Jerry&gt;',
+    ''
+  ].join('\n'));
+});
+
+test('ASS export styles both languages and escapes override characters', () => {
+  const ass = subtitleFormatter.generateASS([cue(1, 1000, 2500, 'こんにちは', 'Hi {there}\\now\nbye')], {
+    title: 'Episode, one',
+    englishStyle: { primaryColor: '#FF8000' }
+  });
+
+  assert.match(ass, /^Title: Episode  one$/m);
+  assert.match(ass, /^Style: English,Arial,48,&H000080FF,/m);
+  assert.match(ass, /^Dialogue: 0,0:00:01\.00,0:00:02\.50,Japanese,,0,0,0,,こんにちは$/m);
+  assert.match(ass, /^Dialogue: 0,0:00:01\.00,0:00:02\.50,English,,0,0,0,,Hi \\\{there\\\}\\\u200Bnow\\Nbye$/m);
+  assert.doesNotMatch(subtitleFormatter.generateASS([cue(1, 0, 1000, 'こんにちは', 'Hi')], { showJapanese: false }), /,Japanese,,/);
+});
+
+test('karaoke timing adds up to the cue and keeps untimed punctuation', () => {
+  const ass = subtitleFormatter.generateASS([cue(1, 1000, 3000, '今日は、晴れ。', 'Sunny today', {
+    words: [
+      { start: 1200, end: 1800, text: '今日は' },
+      { start: 1900, end: 2600, text: '晴れ' }
+    ]
+  })], { karaoke: true });
+
+  // A 20 cs lead-in, the comma sung in the gap between the words, and the final stop left untimed
+  assert.match(ass, /,Japanese,,0,0,0,,\{\\k20\}\{\\k60\}今日は\{\\k10\}、\{\\k70\}晴れ。$/m);
+  // Unsung text is grey by default
+  assert.match(ass, /^Style: Japanese,Noto Sans JP,40,&H00FFFFFF,&H00808080,/m);
+});
+
+test('karaoke falls back to plain text when no word is found in the cue', () => {
+  const ass = subtitleFormatter.generateASS([cue(1, 0, 1000, 'こんにちは', 'Hello', {
+    words: [{ start: 0, end: 500, text: 'さようなら' }]
+  })], { karaoke: true });
+
+  assert.match(ass, /,Japanese,,0,0,0,,こんにちは$/m);
+});
+
+test('failed translations are exported with a marker instead of being dropped', () => {
+  const subtitles = [
+    cue(1, 0, 1000, 'こんにちは', 'Hello'),
+    cue(2, 1000, 2000, '失敗', '', { translationStatus: 'failed' }),
+    cue(3, 2000, 3000, '古い', '[Translation failed: 古い]')
+  ];
+
+  const srt = subtitleFormatter.generateSRT(subtitles);
+  assert.match(srt, /^2\n00:00:01,000 --> 00:00:02,000\n\[Untranslated\] 失敗$/m);
+  assert.match(srt, /^3\n00:00:02,000 --> 00:00:03,000\n\[Untranslated\] 古い$/m);
+
+  // The source is already on its own line, so only the marker is added
+  assert.match(subtitleFormatter.generateVTT(subtitles, { mode: 'bilingual' }), /^失敗\n\[Untranslated\]$/m);
+  assert.match(subtitleFormatter.generateASS(subtitles), /,English,,0,0,0,,\[Untranslated\]$/m);
+  assert.match(subtitleFormatter.generateASS(subtitles, { showJapanese: false }), /,English,,0,0,0,,\[Untranslated\] 失敗$/m);
+});
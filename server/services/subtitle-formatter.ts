@@ -0,0 +1,345 @@
+import type { Subtitle } from "@shared/schema";
+
+export type SubtitleTextMode = 'english' | 'japanese' | 'bilingual';
+export type BilingualOrder = 'ja-en' | 'en-ja';
+
+export interface TextModeOptions {
+  mode?: SubtitleTextMode;
+  order?: BilingualOrder;
+  // Speaker names keyed by speaker id; cues with a named speaker carry it in the export
+  speakerNames?: Record<number, string>;
+}
+
+export type VTTAlign = 'start' | 'center' | 'end' | 'left' | 'right';
+
+export interface VTTCueSettings {
+  position?: number; // percentage of the video width, 0-100
+  line?: number | string; // line number or percentage (e.g. "90%")
+  align?: VTTAlign;
+}
+
+export interface VTTOptions extends TextModeOptions {
+  cueSettings?: VTTCueSettings;
+  notes?: string[];
+}
+
+export interface ASSStyle {
+  fontName: string;
+  fontSize: number;
+  primaryColor: string; // #RRGGBB
+  secondaryColor?: string; // #RRGGBB, karaoke text before it is sung; defaults to primaryColor
+  outlineColor: string; // #RRGGBB
+  bold: boolean;
+  italic: boolean;
+  outline: number;
+  shadow: number;
+  alignment: number; // numpad layout, 2 = bottom center
+  marginV: number;
+}
+
+export interface ASSOptions {
+  title?: string;
+  playResX?: number;
+  playResY?: number;
+  japaneseStyle?: Partial<ASSStyle>;
+  englishStyle?: Partial<ASSStyle>;
+  showJapanese?: boolean;
+  // Adds \k tags from word timings to the original-language line
+  karaoke?: boolean;
+  speakerNames?: Record<number, string>;
+}
+
+const DEFAULT_ENGLISH_STYLE: ASSStyle = {
+  fontName: 'Arial',
+  fontSize: 48,
+  primaryColor: '#FFFFFF',
+  outlineColor: '#000000',
+  bold: false,
+  italic: false,
+  outline: 2,
+  shadow: 1,
+  alignment: 2,
+  marginV: 40
+};
+
+const DEFAULT_JAPANESE_STYLE: ASSStyle = {
+  fontName: 'Noto Sans JP',
+  fontSize: 40,
+  primaryColor: '#FFFFFF',
+  outlineColor: '#000000',
+  bold: false,
+  italic: false,
+  outline: 2,
+  shadow: 1,
+  alignment: 2,
+  // Sits above a two-line English block so the pair reads as a stack
+  marginV: 150
+};
+
+const UNTRANSLATED_MARKER = '[Untranslated]';
+
+export class SubtitleFormatter {
+  generateSRT(subtitles: Subtitle[], options: TextModeOptions = {}): string {
+    // Only cues with no text in any language are left out; failed translations are marked instead
+    return subtitles.filter(subtitle => this.buildCueText(subtitle, options)).map((subtitle, index) => {
+      const startTime = this.formatTimestamp(subtitle.startTime, ',');
+      const endTime = this.formatTimestamp(subtitle.endTime, ',');
+
+      const speaker = this.getSpeakerName(subtitle, options.speakerNames);
+      // Dialogue convention: a leading dash marks who is talking
+      const text = speaker ? `- ${speaker}: ${this.buildCueText(subtitle, options)}` : this.buildCueText(subtitle, options);
+
+      return `${index + 1}\n${startTime} --> ${endTime}\n${text}\n`;
+    }).join('\n');
+  }
+
+  generateVTT(subtitles: Subtitle[], options: VTTOptions = {}): string {
+    const blocks: string[] = ['WEBVTT'];
+
+    // NOTE blocks must not contain "-->" and must not be blank
+    for (const note of options.notes || []) {
+      const text = note.replace(/-->/g, '->').trim();
+      if (text) {
+        blocks.push(`NOTE\n${text}`);
+      }
+    }
+
+    const settings = this.formatCueSettings(options.cueSettings);
+
+    subtitles.filter(subtitle => this.buildCueText(subtitle, options)).forEach((subtitle, index) => {
+      const startTime = this.formatTimestamp(subtitle.startTime, '.');
+      const endTime = this.formatTimestamp(subtitle.endTime, '.');
+      const timing = `${startTime} --> ${endTime}${settings ? ` ${settings}` : ''}`;
+
+      const speaker = this.getSpeakerName(subtitle, options.speakerNames);
+      // Voice annotations end at ">" and may not span lines
+      const voice = speaker ? `<v ${this.escapeVTTText(speaker).replace(/[\r\n]+/g, ' ')}>` : '';
+
+      blocks.push(`${index + 1}\n${timing}\n${voice}${this.escapeVTTText(this.buildCueText(subtitle, options))}`);
+    });
+
+    return blocks.join('\n\n') + '\n';
+  }
+
+  generateASS(subtitles: Subtitle[], options: ASSOptions = {}): string {
+    const englishStyle = { ...DEFAULT_ENGLISH_STYLE, ...options.englishStyle };
+    const japaneseStyle = {
+      ...DEFAULT_JAPANESE_STYLE,
+      ...(options.karaoke ? { secondaryColor: '#808080' } : {}),
+      ...options.japaneseStyle
+    };
+    const showJapanese = options.showJapanese !== false;
+
+    const scriptInfo = [
+      '[Script Info]',
+      `Title: ${this.sanitizeASSField(options.title || 'SubtitleAI Export')}`,
+      'ScriptType: v4.00+',
+      'WrapStyle: 0',
+      'ScaledBorderAndShadow: yes',
+      `PlayResX: ${options.playResX || 1920}`,
+      `PlayResY: ${options.playResY || 1080}`
+    ];
+
+    const styles = [
+      '[V4+ Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+      this.formatASSStyle('English', englishStyle),
+      this.formatASSStyle('Japanese', japaneseStyle)
+    ];
+
+    const events = [
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text'
+    ];
+
+    for (const subtitle of subtitles) {
+      const start = this.formatASSTimestamp(subtitle.startTime);
+      const end = this.formatASSTimestamp(subtitle.endTime);
+      const actor = this.sanitizeASSField(this.getSpeakerName(subtitle, options.speakerNames) || '');
+
+      if (showJapanese && subtitle.japaneseText) {
+        const text = options.karaoke && subtitle.words?.length
+          ? this.buildKaraokeText(subtitle)
+          : this.escapeASSText(subtitle.japaneseText);
+        events.push(`Dialogue: 0,${start},${end},Japanese,${actor},0,0,0,,${text}`);
+      }
+      const english = this.buildTranslationText(subtitle, !(showJapanese && subtitle.japaneseText));
+      if (english) {
+        events.push(`Dialogue: 0,${start},${end},English,${actor},0,0,0,,${this.escapeASSText(english)}`);
+      }
+    }
+
+    return [scriptInfo, styles, events].map(section => section.join('\n')).join('\n\n') + '\n';
+  }
+
+  formatTimestamp(milliseconds: number, separator: ',' | '.'): string {
+    const safeMs = Math.max(0, Math.round(milliseconds || 0));
+    const totalSeconds = Math.floor(safeMs / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const ms = safeMs % 1000;
+
+    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+  }
+
+  private getSpeakerName(subtitle: Subtitle, speakerNames?: Record<number, string>): string | undefined {
+    return subtitle.speakerId !== null && speakerNames ? speakerNames[subtitle.speakerId]?.trim() || undefined : undefined;
+  }
+
+  private buildCueText(subtitle: Subtitle, options: TextModeOptions): string {
+    const mode = options.mode || 'english';
+    const japanese = (subtitle.japaneseText || '').trim();
+
+    if (mode === 'japanese') {
+      return japanese;
+    }
+
+    if (mode === 'bilingual') {
+      const english = this.buildTranslationText(subtitle, false);
+      const lines = options.order === 'en-ja' ? [english, japanese] : [japanese, english];
+      return lines.filter(line => line.length > 0).join('\n');
+    }
+
+    return this.buildTranslationText(subtitle, true);
+  }
+
+  private buildTranslationText(subtitle: Subtitle, includeSource: boolean): string {
+    const japanese = (subtitle.japaneseText || '').trim();
+    const english = (subtitle.englishText || '').trim();
+    // Older rows mark a failure with placeholder text rather than the status
+    if (english && subtitle.translationStatus !== 'failed' && !english.startsWith('[Translation failed')) {
+      return english;
+    }
+    if (!japanese) {
+      return english;
+    }
+
+    // A failed translation is exported as a visible marker rather than silently dropping the cue,
+    // with the source text when it is not already shown on its own line
+    return includeSource ? `${UNTRANSLATED_MARKER} ${japanese}` : UNTRANSLATED_MARKER;
+  }
+
+  private formatASSTimestamp(milliseconds: number): string {
+    // ASS uses H:MM:SS.cc with centisecond precision
+    const centiseconds = Math.max(0, Math.round((milliseconds || 0) / 10));
+    const hours = Math.floor(centiseconds / 360000);
+    const minutes = Math.floor((centiseconds % 360000) / 6000);
+    const seconds = Math.floor((centiseconds % 6000) / 100);
+    const cs = centiseconds % 100;
+
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
+  }
+
+  private formatASSStyle(name: string, style: ASSStyle): string {
+    return [
+      `Style: ${name}`,
+      this.sanitizeASSField(style.fontName),
+      Math.round(style.fontSize),
+      this.toASSColor(style.primaryColor),
+      this.toASSColor(style.secondaryColor || style.primaryColor),
+      this.toASSColor(style.outlineColor),
+      '&H80000000',
+      style.bold ? -1 : 0,
+      style.italic ? -1 : 0,
+      0, 0, 100, 100, 0, 0, 1,
+      style.outline,
+      style.shadow,
+      style.alignment,
+      20, 20,
+      Math.round(style.marginV),
+      1
+    ].join(',');
+  }
+
+  private buildKaraokeText(subtitle: Subtitle): string {
+    const text = subtitle.japaneseText;
+    const words = [...(subtitle.words || [])].sort((a, b) => a.start - b.start);
+    // Centiseconds from the cue start; rounding positions rather than durations keeps the total exact
+    const toCs = (ms: number) => Math.round((Math.max(ms, subtitle.startTime) - subtitle.startTime) / 10);
+
+    const parts: string[] = [];
+    let cursor = 0;
+    let time = subtitle.startTime;
+
+    for (const word of words) {
+      // Timings usually omit punctuation, so each word is located in the cue text
+      const index = text.indexOf(word.text, cursor);
+      if (!word.text || index === -1) continue;
+
+      let leading = text.slice(cursor, index);
+      if (word.start > time) {
+        parts.push(`{\\k${toCs(word.start) - toCs(time)}}${this.escapeASSText(leading)}`);
+        leading = '';
+        time = word.start;
+      }
+
+      const end = Math.max(word.end, time);
+      parts.push(`{\\k${toCs(end) - toCs(time)}}${this.escapeASSText(leading + word.text)}`);
+      cursor = index + word.text.length;
+      time = end;
+    }
+
+    if (parts.length === 0) {
+      return this.escapeASSText(text);
+    }
+    return parts.join('') + this.escapeASSText(text.slice(cursor));
+  }
+
+  private toASSColor(hex: string): string {
+    // #RRGGBB -> &H00BBGGRR (alpha first, then blue, green, red)
+    const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+    if (!match) {
+      return '&H00FFFFFF';
+    }
+    const [, r, g, b] = match;
+    return `&H00${b}${g}${r}`.toUpperCase();
+  }
+
+  private sanitizeASSField(value: string): string {
+    // Commas delimit fields in style and event lines
+    return value.replace(/[,\r\n]/g, ' ').trim();
+  }
+
+  private escapeASSText(text: string): string {
+    // A zero-width space after a literal backslash keeps it from starting an override like \N
+    return text
+      .replace(/\\/g, '\\\u200B')
+      .replace(/{/g, '\\{')
+      .replace(/}/g, '\\}')
+      .replace(/\r?\n/g, '\\N');
+  }
+
+  private formatCueSettings(cueSettings?: VTTCueSettings): string {
+    if (!cueSettings) {
+      return '';
+    }
+
+    const settings: string[] = [];
+
+    if (cueSettings.position !== undefined) {
+      const position = Math.min(100, Math.max(0, cueSettings.position));
+      settings.push(`position:${position}%`);
+    }
+
+    if (cueSettings.line !== undefined && cueSettings.line !== '') {
+      settings.push(`line:${cueSettings.line}`);
+    }
+
+    if (cueSettings.align) {
+      settings.push(`align:${cueSettings.align}`);
+    }
+
+    return settings.join(' ');
+  }
+
+  private escapeVTTText(text: string): string {
+    // "&", "<" and ">" are markup characters in WebVTT cue payloads
+    return (text || '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
+
+export const subtitleFormatter = new SubtitleFormatter();
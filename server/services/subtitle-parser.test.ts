@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { subtitleParser } from "./subtitle-parser";
+import { subtitleFormatter } from "./subtitle-formatter";
+import type { Subtitle } from "@shared/schema";
+
+test('detectFormat uses the extension, then the content', () => {
+  assert.equal(subtitleParser.detectFormat('show.SRT', ''), 'srt');
+  assert.equal(subtitleParser.detectFormat('show.ssa', ''), 'ass');
+  assert.equal(subtitleParser.detectFormat('show.txt', 'WEBVTT\n\n'), 'vtt');
+  assert.equal(subtitleParser.detectFormat('show', '[Script Info]\n'), 'ass');
+  assert.equal(subtitleParser.detectFormat('show', '1\n00:00:01,000 --> 00:00:02,000\nHi\n'), 'srt');
+  assert.throws(() => subtitleParser.detectFormat('show.txt', 'hello'), /Unrecognized subtitle format/);
+});
+
+test('decode strips a UTF-8 byte order mark and reads UTF-16 exports', () => {
+  assert.equal(subtitleParser.decode(Buffer.from('\uFEFFWEBVTT', 'utf8')), 'WEBVTT');
+  assert.equal(subtitleParser.decode(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('字幕', 'utf16le')])), '字幕');
+});
+
+test('SRT cues are split into Japanese and English lines, with tags removed', () => {
+  const cues = subtitleParser.parse([
+    '2',
+    '00:00:03,500 --> 00:00:04,000',
+    '<i>さようなら</i>',
+    'Goodbye',
+    '',
+    '1',
+    '00:00:01,000 --> 00:00:02,250',
+    'こんにちは',
+    'Hello',
+    ''
+  ].join('\r\n'), 'srt');
+
+  assert.deepEqual(cues, [
+    { startTime: 1000, endTime: 2250, japaneseText: 'こんにちは', englishText: 'Hello' },
+    { startTime: 3500, endTime: 4000, japaneseText: 'さようなら', englishText: 'Goodbye' }
+  ]);
+});
+
+test('WebVTT skips notes and cue settings and decodes entities', () => {
+  const cues = subtitleParser.parse([
+    'WEBVTT',
+    '',
+    'NOTE Source: interview.mp3',
+    '',
+    'intro',
+    '01:02.5 --> 01:04.000 position:50% align:center',
+    '<v Speaker 1>Tom &amp; Jerry',
+    ''
+  ].join('\n'), 'vtt');
+
+  assert.deepEqual(cues, [
+    { startTime: 62500, endTime: 64000, japaneseText: '', englishText: 'Tom & Jerry' }
+  ]);
+});
+
+test('ASS dialogue with the same timing is merged into one bilingual cue', () => {
+  const cues = subtitleParser.parse([
+    '[Script Info]',
+    'Title: Test',
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    'Dialogue: 0,0:00:01.00,0:00:02.50,Japanese,,0,0,0,,{\\k20}こんにちは',
+    'Dialogue: 0,0:00:01.00,0:00:02.50,English,,0,0,0,,Hello, world\\Nagain',
+    'Comment: 0,0:00:03.00,0:00:04.00,English,,0,0,0,,ignored'
+  ].join('\n'), 'ass');
+
+  assert.deepEqual(cues, [
+    { startTime: 1000, endTime: 2500, japaneseText: 'こんにちは', englishText: 'Hello, world\nagain' }
+  ]);
+});
+
+test('an ASS file without events and a file without cues are refused', () => {
+  assert.throws(() => subtitleParser.parse('[Script Info]\nTitle: Empty\n', 'ass'), /no \[Events\] section/);
+  assert.throws(() => subtitleParser.parse('WEBVTT\n\n', 'vtt'), /No subtitle cues found/);
+});
+
+test('exported files import back to the same cues', () => {
+  const subtitles = [
+    { id: 1, audioFileId: 1, startTime: 1000, endTime: 2500, japaneseText: 'こんにちは', englishText: 'Hello {there} \\ you', language: 'ja', words: null, speakerId: null, translationStatus: 'translated', createdAt: new Date() },
+    { id: 2, audioFileId: 1, startTime: 3000, endTime: 4000, japaneseText: '猫', englishText: 'A <cat> & a dog', language: 'ja', words: null, speakerId: null, translationStatus: 'translated', createdAt: new Date() }
+  ] as Subtitle[];
+  const expected = subtitles.map(({ startTime, endTime, japaneseText, englishText }) => ({ startTime, endTime, japaneseText, englishText }));
+
+  assert.deepEqual(subtitleParser.parse(subtitleFormatter.generateASS(subtitles), 'ass'), expected);
+  assert.deepEqual(subtitleParser.parse(subtitleFormatter.generateVTT(subtitles, { mode: 'bilingual' }), 'vtt'), expected);
+});
@@ -0,0 +1,204 @@
+export type SubtitleFileFormat = 'srt' | 'vtt' | 'ass';
+
+export interface ParsedCue {
+  startTime: number; // in milliseconds
+  endTime: number; // in milliseconds
+  japaneseText: string;
+  englishText: string;
+}
+
+// Hiragana, katakana, CJK ideographs and half-width katakana
+const JAPANESE_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uff66-\uff9f]/;
+
+export class SubtitleParser {
+  detectFormat(filename: string, content: string): SubtitleFileFormat {
+    const extension = filename.toLowerCase().split('.').pop();
+    if (extension === 'srt') return 'srt';
+    if (extension === 'vtt') return 'vtt';
+    if (extension === 'ass' || extension === 'ssa') return 'ass';
+
+    const head = content.trimStart();
+    if (head.startsWith('WEBVTT')) return 'vtt';
+    if (head.startsWith('[Script Info]')) return 'ass';
+    if (/^\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/.test(head)) return 'srt';
+
+    throw new Error('Unrecognized subtitle format. Only SRT, WebVTT and ASS files are supported.');
+  }
+
+  decode(buffer: Buffer): string {
+    // UTF-16 exports are common from Windows subtitle tools
+    if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+      return buffer.subarray(2).toString('utf16le');
+    }
+    return buffer.toString('utf8').replace(/^\uFEFF/, '');
+  }
+
+  parse(content: string, format: SubtitleFileFormat): ParsedCue[] {
+    const normalized = content.replace(/\r\n?/g, '\n');
+
+    let cues: ParsedCue[];
+    switch (format) {
+      case 'srt':
+        cues = this.parseSRT(normalized);
+        break;
+      case 'vtt':
+        cues = this.parseVTT(normalized);
+        break;
+      case 'ass':
+        cues = this.parseASS(normalized);
+        break;
+    }
+
+    if (cues.length === 0) {
+      throw new Error('No subtitle cues found in file');
+    }
+
+    return cues.sort((a, b) => a.startTime - b.startTime);
+  }
+
+  private parseSRT(content: string): ParsedCue[] {
+    const cues: ParsedCue[] = [];
+
+    for (const block of content.split(/\n{2,}/)) {
+      const lines = block.split('\n').filter(line => line.trim().length > 0);
+      const timingIndex = lines.findIndex(line => line.includes('-->'));
+      if (timingIndex === -1) continue;
+
+      const [start, end] = lines[timingIndex].split('-->').map(part => part.trim());
+      const startTime = this.parseTimestamp(start);
+      const endTime = this.parseTimestamp(end);
+      if (startTime === null || endTime === null) continue;
+
+      const textLines = lines.slice(timingIndex + 1).map(line => this.stripHtmlTags(line));
+      cues.push(this.buildCue(startTime, endTime, textLines));
+    }
+
+    return cues;
+  }
+
+  private parseVTT(content: string): ParsedCue[] {
+    const cues: ParsedCue[] = [];
+
+    for (const block of content.split(/\n{2,}/)) {
+      const lines = block.split('\n').filter(line => line.trim().length > 0);
+      if (lines.length === 0) continue;
+
+      // Header, comments and style/region definitions carry no cues
+      if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+      const timingIndex = lines.findIndex(line => line.includes('-->'));
+      if (timingIndex === -1) continue;
+
+      const [start, rest] = lines[timingIndex].split('-->');
+      // Cue settings follow the end timestamp on the same line
+      const end = rest.trim().split(/\s+/)[0];
+      const startTime = this.parseTimestamp(start.trim());
+      const endTime = this.parseTimestamp(end);
+      if (startTime === null || endTime === null) continue;
+
+      const textLines = lines.slice(timingIndex + 1).map(line => this.decodeEntities(this.stripHtmlTags(line)));
+      cues.push(this.buildCue(startTime, endTime, textLines));
+    }
+
+    return cues;
+  }
+
+  private parseASS(content: string): ParsedCue[] {
+    const lines = content.split('\n');
+    const eventsStart = lines.findIndex(line => line.trim().toLowerCase() === '[events]');
+    if (eventsStart === -1) {
+      throw new Error('ASS file has no [Events] section');
+    }
+
+    let columns = ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+    // Dialogue lines with the same timing are merged so bilingual exports import as one cue
+    const grouped = new Map<string, { startTime: number; endTime: number; lines: string[] }>();
+
+    for (const rawLine of lines.slice(eventsStart + 1)) {
+      const line = rawLine.trim();
+      if (line.startsWith('[')) break;
+
+      if (line.toLowerCase().startsWith('format:')) {
+        columns = line.slice('format:'.length).split(',').map(column => column.trim().toLowerCase());
+        continue;
+      }
+
+      if (!line.toLowerCase().startsWith('dialogue:')) continue;
+
+      // The text column is last and may itself contain commas
+      const fields = line.slice('dialogue:'.length).split(',');
+      const head = fields.slice(0, columns.length - 1).map(field => field.trim());
+      const text = fields.slice(columns.length - 1).join(',');
+
+      const startTime = this.parseTimestamp(head[columns.indexOf('start')]);
+      const endTime = this.parseTimestamp(head[columns.indexOf('end')]);
+      if (startTime === null || endTime === null) continue;
+
+      const cleaned = text
+        .replace(/\\\{/g, '\u0000')
+        .replace(/\\\}/g, '\u0001')
+        .replace(/\{[^}]*\}/g, '')
+        .replace(/\\[Nn]/g, '\n')
+        .replace(/\\h/g, ' ')
+        .replace(/\\\u200B/g, '\\')
+        .replace(/\u0000/g, '{')
+        .replace(/\u0001/g, '}')
+        .trim();
+      if (!cleaned) continue;
+
+      const key = `${startTime}-${endTime}`;
+      const group = grouped.get(key) || { startTime, endTime, lines: [] };
+      group.lines.push(...cleaned.split('\n'));
+      grouped.set(key, group);
+    }
+
+    return Array.from(grouped.values()).map(group => this.buildCue(group.startTime, group.endTime, group.lines));
+  }
+
+  private buildCue(startTime: number, endTime: number, textLines: string[]): ParsedCue {
+    const japaneseLines: string[] = [];
+    const englishLines: string[] = [];
+
+    for (const line of textLines.map(line => line.trim()).filter(Boolean)) {
+      if (JAPANESE_PATTERN.test(line)) {
+        japaneseLines.push(line);
+      } else {
+        englishLines.push(line);
+      }
+    }
+
+    return {
+      startTime: Math.max(0, startTime),
+      endTime: Math.max(startTime, endTime),
+      japaneseText: japaneseLines.join('\n'),
+      englishText: englishLines.join('\n')
+    };
+  }
+
+  private parseTimestamp(value: string | undefined): number | null {
+    if (!value) return null;
+
+    // Accepts HH:MM:SS,mmm (SRT), [HH:]MM:SS.mmm (VTT) and H:MM:SS.cc (ASS)
+    const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/.exec(value.trim());
+    if (!match) return null;
+
+    const [, hours = '0', minutes, seconds, fraction = '0'] = match;
+    const ms = parseInt(fraction.padEnd(3, '0'));
+
+    return ((parseInt(hours) * 60 + parseInt(minutes)) * 60 + parseInt(seconds)) * 1000 + ms;
+  }
+
+  private stripHtmlTags(text: string): string {
+    return text.replace(/<[^>]+>/g, '');
+  }
+
+  private decodeEntities(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&');
+  }
+}
+
+export const subtitleParser = new SubtitleParser();
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { subtitleQcService } from "./subtitle-qc";
+import type { Subtitle } from "@shared/schema";
+
+function cue(id: number, startTime: number, endTime: number, englishText: string, extra: Partial<Subtitle> = {}): Subtitle {
+  return {
+    id,
+    audioFileId: 1,
+    startTime,
+    endTime,
+    japaneseText: '日本語',
+    englishText,
+    language: 'ja',
+    words: null,
+    speakerId: null,
+    translationStatus: 'translated',
+    createdAt: new Date(),
+    ...extra
+  };
+}
+
+const rules = (subtitles: Subtitle[], options = {}) =>
+  subtitleQcService.lint(subtitles, options).map(issue => [issue.subtitleId, issue.rule, issue.severity]);
+
+test('clean cues have no issues', () => {
+  assert.deepEqual(rules([cue(1, 0, 2000, 'Hello'), cue(2, 3000, 5000, 'Goodbye')]), []);
+});
+
+test('timing problems are reported against the later cue', () => {
+  assert.deepEqual(rules([
+    cue(1, 0, 5000, 'A long cue'),
+    cue(2, 1000, 2000, 'Inside it'),
+    cue(3, 5050, 7000, 'Too close'),
+    cue(4, 8000, 8000, 'Zero')
+  ]), [
+    [2, 'overlap', 'error'],
+    [3, 'gap', 'warning'],
+    [4, 'duration', 'error']
+  ]);
+});
+
+test('failed, empty and placeholder translations are flagged as untranslated', () => {
+  const issues = subtitleQcService.lint([
+    cue(1, 0, 2000, '', { translationStatus: 'failed' }),
+    cue(2, 3000, 5000, '  '),
+    cue(3, 6000, 8000, '[Translation failed: 日本語]')
+  ]);
+
+  assert.deepEqual(issues.map(issue => [issue.subtitleId, issue.rule, issue.message]), [
+    [1, 'untranslated', 'Translation failed'],
+    [2, 'untranslated', 'Cue has no translation'],
+    [3, 'untranslated', 'Translation failed']
+  ]);
+});
+
+test('reading speed and line limits follow the given limits', () => {
+  const text = 'This line is rather long for one subtitle\nand it goes on\nand on';
+
+  assert.deepEqual(rules([cue(1, 0, 1000, text)], { limits: { maxCharsPerLine: 30 } }), [
+    [1, 'cps', 'warning'],
+    [1, 'line_length', 'warning'],
+    [1, 'line_length', 'warning']
+  ]);
+  assert.deepEqual(rules([cue(1, 0, 10000, text)], { limits: { maxLines: 3 } }), []);
+});
+
+test('leftover Japanese is flagged, except kanji in a Chinese track', () => {
+  assert.deepEqual(rules([cue(1, 0, 2000, 'Hello さん')]), [[1, 'leftover_source', 'warning']]);
+  assert.deepEqual(rules([cue(1, 0, 2000, '你好')], { language: 'zh' }), []);
+  assert.deepEqual(rules([cue(1, 0, 2000, '東京')]), [[1, 'leftover_source', 'warning']]);
+});
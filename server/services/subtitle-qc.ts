@@ -0,0 +1,86 @@
+import type { Subtitle } from "@shared/schema";
+import { DEFAULT_READABILITY_LIMITS, type ReadabilityLimits } from "./cue-segmenter";
+
+export type QcRule = 'overlap' | 'duration' | 'gap' | 'cps' | 'line_length' | 'untranslated' | 'leftover_source';
+
+export interface QcIssue {
+  subtitleId: number;
+  rule: QcRule;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface QcOptions {
+  limits?: Partial<ReadabilityLimits>;
+  frameRate?: number;
+  language?: string; // language of the translated text being checked
+}
+
+const KANA = /[\u3040-\u30ff\uff66-\uff9f]/;
+const HAN = /[\u3400-\u4dbf\u4e00-\u9fff]/;
+const MIN_GAP_FRAMES = 2;
+
+export class SubtitleQcService {
+  lint(subtitles: Subtitle[], options: QcOptions = {}): QcIssue[] {
+    const limits = { ...DEFAULT_READABILITY_LIMITS, ...options.limits };
+    const frameMs = 1000 / (options.frameRate || 24);
+    const sorted = [...subtitles].sort((a, b) => a.startTime - b.startTime || a.id - b.id);
+    const issues: QcIssue[] = [];
+    let latestEnd = 0;
+
+    sorted.forEach((subtitle, index) => {
+      const add = (rule: QcRule, severity: QcIssue['severity'], message: string) =>
+        issues.push({ subtitleId: subtitle.id, rule, severity, message });
+      const duration = subtitle.endTime - subtitle.startTime;
+
+      if (duration <= 0) {
+        add('duration', 'error', duration === 0 ? 'Cue has zero duration' : 'Cue ends before it starts');
+      }
+
+      // Compared against the latest end so far, so a long cue overlapping several later ones is caught
+      if (index > 0) {
+        const gap = subtitle.startTime - latestEnd;
+        if (gap < 0) {
+          add('overlap', 'error', `Overlaps the previous cue by ${-gap} ms`);
+        } else if (gap > 0 && gap < frameMs * MIN_GAP_FRAMES) {
+          add('gap', 'warning', `Gap of ${gap} ms to the previous cue is under ${MIN_GAP_FRAMES} frames`);
+        }
+      }
+      latestEnd = Math.max(latestEnd, subtitle.endTime);
+
+      const text = subtitle.englishText || '';
+      // Rows stored before translation status existed carry a placeholder and the default status
+      const failed = subtitle.translationStatus === 'failed' || text.startsWith('[Translation failed');
+      if (failed || !text.trim()) {
+        add('untranslated', 'error', failed ? 'Translation failed' : 'Cue has no translation');
+        return;
+      }
+
+      const characters = text.replace(/\s+/g, ' ').trim().length;
+      if (duration > 0) {
+        const cps = characters / (duration / 1000);
+        if (cps > limits.maxCps) {
+          add('cps', 'warning', `Reading speed ${cps.toFixed(1)} CPS exceeds ${limits.maxCps}`);
+        }
+      }
+
+      const lines = text.split('\n');
+      if (lines.length > limits.maxLines) {
+        add('line_length', 'warning', `${lines.length} lines exceed the limit of ${limits.maxLines}`);
+      }
+      const longest = Math.max(...lines.map(line => line.trim().length));
+      if (longest > limits.maxCharsPerLine) {
+        add('line_length', 'warning', `Line of ${longest} characters exceeds ${limits.maxCharsPerLine}`);
+      }
+
+      // Kanji is legitimate in a Chinese track, kana never is
+      if (KANA.test(text) || (options.language !== 'zh' && HAN.test(text))) {
+        add('leftover_source', 'warning', 'Translation still contains Japanese characters');
+      }
+    });
+
+    return issues;
+  }
+}
+
+export const subtitleQcService = new SubtitleQcService();
@@ -0,0 +1,124 @@
+import { storage } from "../storage";
+import type { TranslationMemoryEntry } from "@shared/schema";
+
+export type TranslationMemoryOrigin = 'machine' | 'human';
+
+export interface TranslationMemoryMatch {
+  entry: TranslationMemoryEntry;
+  similarity: number; // 1 for an exact match
+}
+
+// Suggestions below this similarity are left out
+const DEFAULT_FUZZY_THRESHOLD = 0.9;
+
+// Digits (full-width ones are folded by normalize) and kanji numerals
+const NUMBER_PATTERN = /[0-9]+|[〇一二三四五六七八九十百千万億]+/g;
+const NEGATION_PATTERN = /ない|なかった|ません|\bnot\b|n't\b|\bnever\b/i;
+
+export class TranslationMemoryService {
+  private fuzzyThreshold = parseFloat(process.env.TRANSLATION_MEMORY_FUZZY_THRESHOLD || '') || DEFAULT_FUZZY_THRESHOLD;
+
+  // Full-width/half-width variants and spacing differences should not defeat an exact match
+  normalize(text: string): string {
+    return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+  }
+
+  // Only an exact match is reused as a translation; a human correction wins over machine output
+  async lookup(text: string, sourceLang: string, targetLang: string): Promise<TranslationMemoryEntry | null> {
+    const sourceText = this.normalize(text);
+    if (!sourceText) {
+      return null;
+    }
+
+    try {
+      const exact = await storage.findTranslationMemoryEntry(sourceLang, targetLang, sourceText);
+      if (exact) {
+        await storage.incrementTranslationMemoryUsage(exact.id);
+      }
+      return exact || null;
+    } catch (error) {
+      console.warn('Translation memory lookup failed:', error);
+      return null;
+    }
+  }
+
+  // Entries close to `text`, best first. These are only suggestions: one changed number or
+  // a dropped negation leaves the text highly similar while the meaning differs, so entries that
+  // disagree on either are left out.
+  async suggest(text: string, sourceLang: string, targetLang: string, limit: number = 3): Promise<TranslationMemoryMatch[]> {
+    const sourceText = this.normalize(text);
+    if (!sourceText) {
+      return [];
+    }
+
+    try {
+      // Only entries of similar length can reach the threshold, so the rest are never fetched
+      const slack = Math.floor(sourceText.length * (1 - this.fuzzyThreshold));
+      const candidates = await storage.getTranslationMemoryCandidates(
+        sourceLang,
+        targetLang,
+        sourceText.length - slack,
+        sourceText.length + slack
+      );
+
+      return candidates
+        .filter(entry => this.sameNumbers(sourceText, entry.sourceText) && this.isNegated(sourceText) === this.isNegated(entry.sourceText))
+        .map(entry => ({ entry, similarity: this.similarity(sourceText, entry.sourceText) }))
+        .filter(match => match.similarity >= this.fuzzyThreshold)
+        // Prefer the closer match, then human corrections over machine output
+        .sort((a, b) => b.similarity - a.similarity ||
+          Number(b.entry.origin === 'human') - Number(a.entry.origin === 'human'))
+        .slice(0, limit);
+    } catch (error) {
+      console.warn('Translation memory suggestion lookup failed:', error);
+      return [];
+    }
+  }
+
+  async remember(text: string, translation: string, sourceLang: string, targetLang: string, origin: TranslationMemoryOrigin): Promise<void> {
+    const sourceText = this.normalize(text);
+    const targetText = translation.trim();
+    // Placeholders from before failed translations were left empty may still be stored on old cues
+    if (!sourceText || !targetText || targetText.startsWith('[Translation failed')) {
+      return;
+    }
+
+    // Human and machine entries are kept apart, so machine output never replaces a human correction
+    try {
+      await storage.upsertTranslationMemoryEntry({ sourceLang, targetLang, sourceText, targetText, origin });
+    } catch (error) {
+      console.warn('Failed to store translation memory entry:', error);
+    }
+  }
+
+  private sameNumbers(a: string, b: string): boolean {
+    const numbers = (text: string) => (text.match(NUMBER_PATTERN) || []).join(' ');
+    return numbers(a) === numbers(b);
+  }
+
+  private isNegated(text: string): boolean {
+    return NEGATION_PATTERN.test(text);
+  }
+
+  // Normalized Levenshtein similarity in the range 0..1
+  private similarity(a: string, b: string): number {
+    const longest = Math.max(a.length, b.length);
+    if (longest === 0) {
+      return 1;
+    }
+
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+
+    return 1 - previous[b.length] / longest;
+  }
+}
+
+export const translationMemoryService = new TranslationMemoryService();
@@ -0,0 +1,115 @@
+import type { TranslationPreset } from "@shared/schema";
+
+export type HonorificPolicy = 'keep' | 'localize';
+export type RegisterPolicy = 'neutral' | 'formal' | 'casual';
+export type LocalizationPolicy = 'preserve' | 'localize';
+export type ProfanityPolicy = 'keep' | 'soften' | 'censor';
+
+export interface TranslationPolicy {
+  honorifics: HonorificPolicy;
+  register: RegisterPolicy;
+  units: LocalizationPolicy;
+  names: LocalizationPolicy;
+  profanity: ProfanityPolicy;
+}
+
+export const DEFAULT_TRANSLATION_POLICY: TranslationPolicy = {
+  honorifics: 'keep',
+  register: 'neutral',
+  units: 'preserve',
+  names: 'preserve',
+  profanity: 'keep'
+};
+
+export const TRANSLATION_POLICY_VALUES: { [K in keyof TranslationPolicy]: TranslationPolicy[K][] } = {
+  honorifics: ['keep', 'localize'],
+  register: ['neutral', 'formal', 'casual'],
+  units: ['preserve', 'localize'],
+  names: ['preserve', 'localize'],
+  profanity: ['keep', 'soften', 'censor']
+};
+
+const HONORIFIC_SUFFIX = /(\w)-(san|sama|kun|chan|senpai|sempai|sensei|dono|tan)\b/gi;
+const PROFANITY = /\b(fuck\w*|shit\w*|bitch\w*|bastard\w*|asshole\w*|damn\w*|crap\w*|dick\w*|piss\w*)\b/gi;
+
+export class TranslationPolicyService {
+  fromPreset(preset: TranslationPreset): TranslationPolicy {
+    return {
+      honorifics: preset.honorifics as HonorificPolicy,
+      register: preset.register as RegisterPolicy,
+      units: preset.units as LocalizationPolicy,
+      names: preset.names as LocalizationPolicy,
+      profanity: preset.profanity as ProfanityPolicy
+    };
+  }
+
+  isDefault(policy?: TranslationPolicy): boolean {
+    return !policy || (Object.keys(DEFAULT_TRANSLATION_POLICY) as (keyof TranslationPolicy)[])
+      .every(key => policy[key] === DEFAULT_TRANSLATION_POLICY[key]);
+  }
+
+  // Returns the first invalid field, or null when every value is allowed
+  validate(policy: Partial<TranslationPolicy>): string | null {
+    for (const key of Object.keys(TRANSLATION_POLICY_VALUES) as (keyof TranslationPolicy)[]) {
+      const value = policy[key];
+      if (value !== undefined && !(TRANSLATION_POLICY_VALUES[key] as string[]).includes(value)) {
+        return `Invalid ${key} policy. Must be one of: ${TRANSLATION_POLICY_VALUES[key].join(', ')}`;
+      }
+    }
+    return null;
+  }
+
+  buildPromptInstructions(policy?: TranslationPolicy): string {
+    if (!policy || this.isDefault(policy)) {
+      return '';
+    }
+
+    const rules: string[] = [];
+    if (policy.honorifics === 'localize') {
+      rules.push('Drop Japanese honorific suffixes (-san, -kun, -senpai, -sama) and convey the relationship through natural wording instead.');
+    } else {
+      rules.push('Keep Japanese honorific suffixes attached to names (e.g. Tanaka-san, Yuki-senpai).');
+    }
+
+    if (policy.register === 'formal') {
+      rules.push('Use a formal, polite register.');
+    } else if (policy.register === 'casual') {
+      rules.push('Use a casual, conversational register.');
+    }
+
+    rules.push(policy.units === 'localize'
+      ? 'Convert units and measurements to US customary equivalents.'
+      : 'Keep units and measurements as in the original.');
+    rules.push(policy.names === 'localize'
+      ? 'Localize names of places, foods and brands to familiar equivalents where one exists.'
+      : 'Keep personal names, places and brands in their original romanized form.');
+
+    if (policy.profanity === 'soften') {
+      rules.push('Soften profanity to mild language.');
+    } else if (policy.profanity === 'censor') {
+      rules.push('Censor profanity by replacing all but the first letter with asterisks.');
+    } else {
+      rules.push('Translate profanity at its original strength.');
+    }
+
+    return `Follow this translation style:\n${rules.map(rule => `- ${rule}`).join('\n')}`;
+  }
+
+  // Engines without a prompt can only have the mechanical parts of a policy applied to their output
+  applyToOutput(text: string, policy?: TranslationPolicy): string {
+    if (!policy) {
+      return text;
+    }
+
+    let result = text;
+    if (policy.honorifics === 'localize') {
+      result = result.replace(HONORIFIC_SUFFIX, '$1');
+    }
+    if (policy.profanity === 'censor') {
+      result = result.replace(PROFANITY, word => word[0] + '*'.repeat(word.length - 1));
+    }
+    return result;
+  }
+}
+
+export const translationPolicyService = new TranslationPolicyService();
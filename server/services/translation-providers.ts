@@ -0,0 +1,336 @@
+import OpenAI from 'openai';
+import { v2 } from '@google-cloud/translate';
+import { glossaryService, type GlossaryEntry } from './glossary';
+import { translationPolicyService, type TranslationPolicy } from './translation-policy';
+import { RequestError } from './request-scheduler';
+
+export interface TranslationResult {
+  originalText: string;
+  translatedText: string;
+  confidence?: number;
+}
+
+export interface TranslationContext {
+  before: string[];
+  after: string[];
+}
+
+// Per-request guidance every provider receives alongside the text
+export interface ProviderRequestOptions {
+  glossary?: GlossaryEntry[];
+  policy?: TranslationPolicy;
+  signal?: AbortSignal; // aborts the request when the job is cancelled
+}
+
+export interface TranslationProvider {
+  readonly name: string;
+  translate(text: string, sourceLang: string, targetLang: string, options?: ProviderRequestOptions): Promise<TranslationResult>;
+  // Translates consecutive lines in one request; must return exactly one translation per line
+  translateWindow?(lines: string[], context: TranslationContext, sourceLang: string, targetLang: string, options?: ProviderRequestOptions): Promise<string[]>;
+}
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  ja: 'Japanese',
+  en: 'English',
+  es: 'Spanish',
+  ko: 'Korean',
+  zh: 'Chinese',
+  fr: 'French',
+  de: 'German',
+  pt: 'Portuguese',
+  it: 'Italian'
+};
+
+export function getLanguageName(code: string): string {
+  return LANGUAGE_NAMES[code] || code;
+}
+
+// Languages subtitles can be translated into
+export function getTargetLanguageCodes(): string[] {
+  return Object.keys(LANGUAGE_NAMES).filter(code => code !== 'ja');
+}
+
+export class OpenAITranslationProvider implements TranslationProvider {
+  readonly name = 'openai';
+  private openai: OpenAI;
+
+  constructor() {
+    // Retries are left to the request scheduler, which spaces them across the whole batch
+    this.openai = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY || "default_key",
+      maxRetries: 0
+    });
+  }
+
+  async translate(text: string, sourceLang: string, targetLang: string, options: ProviderRequestOptions = {}): Promise<TranslationResult> {
+    const source = getLanguageName(sourceLang);
+    const target = getLanguageName(targetLang);
+    const instructions = this.buildInstructions(text, options);
+
+    const response = await this.openai.chat.completions.create({
+      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      messages: [
+        {
+          role: "system",
+          content: `You are a professional ${source} to ${target} translator specializing in accurate, natural translations.
+          Maintain the original meaning while making the ${target} sound natural and fluent.${instructions}
+          Respond with JSON in this exact format: { "translation": "your translation here" }`
+        },
+        {
+          role: "user",
+          content: `Translate this ${source} text to ${target}: "${text}"`
+        }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.3, // Lower temperature for more consistent translations
+      max_tokens: 1000
+    }, { signal: options.signal });
+
+    if (!response.choices || response.choices.length === 0) {
+      throw new Error('No translation response received from OpenAI');
+    }
+
+    const messageContent = response.choices[0].message?.content;
+    if (!messageContent) {
+      throw new Error('Empty response from OpenAI');
+    }
+
+    let result;
+    try {
+      result = JSON.parse(messageContent);
+    } catch (parseError) {
+      throw new Error('Invalid JSON response from OpenAI');
+    }
+
+    if (!result.translation) {
+      throw new Error('Translation not found in response');
+    }
+
+    return {
+      originalText: text,
+      translatedText: result.translation.trim(),
+      confidence: 0.95
+    };
+  }
+
+  async translateWindow(lines: string[], context: TranslationContext, sourceLang: string, targetLang: string, options: ProviderRequestOptions = {}): Promise<string[]> {
+    const source = getLanguageName(sourceLang);
+    const target = getLanguageName(targetLang);
+    const instructions = this.buildInstructions(lines.join('\n'), options);
+
+    const response = await this.openai.chat.completions.create({
+      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      messages: [
+        {
+          role: "system",
+          content: `You are a professional ${source} to ${target} subtitle translator. You receive consecutive subtitle lines from one transcript.
+          Use "context_before" and "context_after" only to resolve pronouns, omitted subjects and sentences split across lines; do not translate them.
+          Translate every entry in "lines" separately, keeping its id. Never merge or split lines: if a line is a sentence fragment, translate it as a fragment that reads naturally next to its neighbours.${instructions}
+          Respond with JSON in this exact format: { "translations": [{ "id": 1, "translation": "..." }] }`
+        },
+        {
+          role: "user",
+          content: JSON.stringify({
+            context_before: context.before,
+            lines: lines.map((text, index) => ({ id: index + 1, text })),
+            context_after: context.after
+          })
+        }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.3,
+      max_tokens: 4000
+    }, { signal: options.signal });
+
+    const messageContent = response.choices?.[0]?.message?.content;
+    if (!messageContent) {
+      throw new Error('Empty response from OpenAI');
+    }
+
+    let result;
+    try {
+      result = JSON.parse(messageContent);
+    } catch (parseError) {
+      throw new Error('Invalid JSON response from OpenAI');
+    }
+
+    if (!Array.isArray(result.translations)) {
+      throw new Error('Translations not found in response');
+    }
+
+    // Re-order by id so the output lines up with the input even if the model shuffles entries
+    const byId = new Map<number, string>();
+    for (const entry of result.translations) {
+      if (typeof entry?.id === 'number' && typeof entry.translation === 'string') {
+        byId.set(entry.id, entry.translation.trim());
+      }
+    }
+
+    return lines.map((_, index) => byId.get(index + 1) ?? '');
+  }
+
+  private buildInstructions(text: string, options: ProviderRequestOptions): string {
+    const sections = [
+      translationPolicyService.buildPromptInstructions(options.policy),
+      glossaryService.buildPromptInstructions(glossaryService.relevantTerms(text, options.glossary))
+    ].filter(Boolean);
+    return sections.map(section => `\n${section}`).join('');
+  }
+}
+
+// Uses GOOGLE_TRANSLATE_API_KEY when set, otherwise application default credentials
+export class GoogleTranslationProvider implements TranslationProvider {
+  readonly name = 'google';
+  private client: v2.Translate | null = null;
+
+  private getClient(): v2.Translate {
+    if (!this.client) {
+      this.client = new v2.Translate(
+        process.env.GOOGLE_TRANSLATE_API_KEY ? { key: process.env.GOOGLE_TRANSLATE_API_KEY } : {}
+      );
+    }
+    return this.client;
+  }
+
+  async translate(text: string, sourceLang: string, targetLang: string, options: ProviderRequestOptions = {}): Promise<TranslationResult> {
+    const source = glossaryService.applyToSource(text, glossaryService.relevantTerms(text, options.glossary));
+    // The client library takes no AbortSignal, so an abort only stops waiting for the response
+    const [translation] = await abortable(this.getClient().translate(source, {
+      from: sourceLang,
+      to: targetLang,
+      format: 'text'
+    }), options.signal);
+
+    return {
+      originalText: text,
+      translatedText: translationPolicyService.applyToOutput((translation || '').trim(), options.policy),
+      confidence: 0.9
+    };
+  }
+}
+
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  signal.throwIfAborted();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+const DEEPL_TARGET_VARIANTS: Record<string, string> = {
+  en: 'EN-US',
+  pt: 'PT-BR'
+};
+
+export class DeepLTranslationProvider implements TranslationProvider {
+  readonly name = 'deepl';
+
+  async translate(text: string, sourceLang: string, targetLang: string, options: ProviderRequestOptions = {}): Promise<TranslationResult> {
+    const apiKey = process.env.DEEPL_API_KEY;
+    if (!apiKey) {
+      throw new Error('DEEPL_API_KEY is not configured');
+    }
+
+    // Free-tier keys end in ":fx" and use a separate host
+    const host = apiKey.endsWith(':fx') ? 'https://api-free.deepl.com' : 'https://api.deepl.com';
+    const response = await fetch(`${host}/v2/translate`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `DeepL-Auth-Key ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        text: [glossaryService.applyToSource(text, glossaryService.relevantTerms(text, options.glossary))],
+        source_lang: sourceLang.toUpperCase(),
+        // DeepL requires a regional variant for English and Portuguese targets
+        target_lang: DEEPL_TARGET_VARIANTS[targetLang.toLowerCase()] || targetLang.toUpperCase(),
+        // "prefer_" variants fall back silently for target languages without formality support
+        ...(options.policy?.register === 'formal' ? { formality: 'prefer_more' } : {}),
+        ...(options.policy?.register === 'casual' ? { formality: 'prefer_less' } : {})
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new RequestError(`DeepL request failed with status ${response.status}: ${await response.text()}`, response.status, response.headers);
+    }
+
+    const result = await response.json();
+    const translation = result.translations?.[0]?.text;
+    if (!translation) {
+      throw new Error('Translation not found in response');
+    }
+
+    return {
+      originalText: text,
+      translatedText: translationPolicyService.applyToOutput(translation.trim(), options.policy),
+      confidence: 0.9
+    };
+  }
+}
+
+// Offline fallback: calls a LibreTranslate-compatible server at LOCAL_TRANSLATION_URL
+export class LocalTranslationProvider implements TranslationProvider {
+  readonly name = 'local';
+
+  async translate(text: string, sourceLang: string, targetLang: string, options: ProviderRequestOptions = {}): Promise<TranslationResult> {
+    const url = process.env.LOCAL_TRANSLATION_URL;
+    if (!url) {
+      throw new Error('LOCAL_TRANSLATION_URL is not configured');
+    }
+
+    const source = glossaryService.applyToSource(text, glossaryService.relevantTerms(text, options.glossary));
+
+    const response = await fetch(`${url.replace(/\/$/, '')}/translate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ q: source, source: sourceLang, target: targetLang, format: 'text' }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new RequestError(`Local translation request failed with status ${response.status}`, response.status, response.headers);
+    }
+
+    const result = await response.json();
+    if (!result.translatedText) {
+      throw new Error('Translation not found in response');
+    }
+
+    return {
+      originalText: text,
+      translatedText: translationPolicyService.applyToOutput(result.translatedText.trim(), options.policy),
+      confidence: 0.6
+    };
+  }
+}
+
+const translationProviders: Record<string, () => TranslationProvider> = {
+  openai: () => new OpenAITranslationProvider(),
+  google: () => new GoogleTranslationProvider(),
+  deepl: () => new DeepLTranslationProvider(),
+  local: () => new LocalTranslationProvider()
+};
+
+const providerCache = new Map<string, TranslationProvider>();
+
+export function getTranslationProviderNames(): string[] {
+  return Object.keys(translationProviders);
+}
+
+export function getTranslationProvider(name?: string): TranslationProvider {
+  const providerName = name || process.env.TRANSLATION_PROVIDER || 'openai';
+  const factory = translationProviders[providerName];
+  if (!factory) {
+    throw new Error(`Unknown translation provider: ${providerName}`);
+  }
+
+  if (!providerCache.has(providerName)) {
+    providerCache.set(providerName, factory());
+  }
+  return providerCache.get(providerName)!;
+}
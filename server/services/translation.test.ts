@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { translationService, type CueTranslation, type SourceText } from "./translation";
+
+const sources: SourceText[] = [
+  { id: 4, text: 'こんにちは', language: 'ja' },
+  { id: 7, text: 'ありがとう', language: 'ja' }
+];
+
+function result(id: number, originalText: string, translatedText: string): CueTranslation {
+  return { id, originalText, translatedText, confidence: 0.9, status: 'translated' };
+}
+
+test('alignTranslations pairs results with their sources by id, whatever their order', () => {
+  const aligned = translationService.alignTranslations(sources, [
+    result(7, 'ありがとう', 'Thank you'),
+    result(4, 'こんにちは', 'Hello')
+  ]);
+
+  assert.equal(aligned.get(4)?.translatedText, 'Hello');
+  assert.equal(aligned.get(7)?.translatedText, 'Thank you');
+});
+
+test('alignTranslations ignores surrounding whitespace in the echoed source text', () => {
+  const aligned = translationService.alignTranslations(sources, [
+    result(4, ' こんにちは\n', 'Hello'),
+    result(7, 'ありがとう', 'Thank you')
+  ]);
+
+  assert.equal(aligned.size, 2);
+});
+
+test('alignTranslations refuses a batch with a missing result', () => {
+  assert.throws(
+    () => translationService.alignTranslations(sources, [result(4, 'こんにちは', 'Hello')]),
+    /expected 2 results, received 1/
+  );
+});
+
+test('alignTranslations refuses duplicate results for one segment', () => {
+  assert.throws(
+    () => translationService.alignTranslations(sources, [
+      result(4, 'こんにちは', 'Hello'),
+      result(4, 'こんにちは', 'Hi')
+    ]),
+    /duplicate result for segment 4/
+  );
+});
+
+test('alignTranslations refuses results for ids it did not send', () => {
+  assert.throws(
+    () => translationService.alignTranslations(sources, [
+      result(4, 'こんにちは', 'Hello'),
+      result(9, 'ありがとう', 'Thank you')
+    ]),
+    /no result for segment 7/
+  );
+});
+
+test('alignTranslations refuses a result that belongs to different text', () => {
+  assert.throws(
+    () => translationService.alignTranslations(sources, [
+      result(4, 'ありがとう', 'Thank you'),
+      result(7, 'こんにちは', 'Hello')
+    ]),
+    /result for segment 4 belongs to different text/
+  );
+});
+
+test('translateMixedBatch passes lines already in the target language through', async () => {
+  const results = await translationService.translateMixedBatch([
+    { id: 1, text: 'Good morning', language: 'en' },
+    { id: 2, text: 'See you', language: 'en' }
+  ], 'en');
+
+  assert.deepEqual(results.map(({ id, translatedText, status }) => ({ id, translatedText, status })), [
+    { id: 1, translatedText: 'Good morning', status: 'translated' },
+    { id: 2, translatedText: 'See you', status: 'translated' }
+  ]);
+});
@@ -1,22 +1,46 @@
-import OpenAI from 'openai';
+import { getTranslationProvider, type TranslationProvider, type TranslationResult, type TranslationContext } from './translation-providers';
+import { glossaryService, type GlossaryEntry } from './glossary';
+import { translationMemoryService } from './translation-memory';
+import { translationPolicyService, type TranslationPolicy } from './translation-policy';
+import { translationScheduler } from './request-scheduler';
 
-export interface TranslationResult {
-  originalText: string;
-  translatedText: string;
-  confidence?: number;
+export type { TranslationResult } from './translation-providers';
+
+export type TranslationMode = 'segment' | 'context';
+
+// `id` is the stable segment or subtitle id a result is matched back to
+export interface SourceText {
+  id: number;
+  text: string;
+  language: string;
 }
 
-export class TranslationService {
-  private openai: OpenAI;
+export type CueTranslationStatus = 'translated' | 'failed';
 
-  constructor() {
-    // Initialize OpenAI
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY || "default_key"
-    });
-  }
+export interface CueTranslation extends TranslationResult {
+  id: number;
+  status: CueTranslationStatus;
+}
 
-  async translateText(text: string, sourceLang: string = 'ja', targetLang: string = 'en'): Promise<TranslationResult> {
+export interface TranslationOptions {
+  provider?: string;
+  // "context" sends windows of consecutive lines together so fragments are translated with their neighbours
+  mode?: TranslationMode;
+  windowSize?: number;
+  contextSize?: number;
+  glossary?: GlossaryEntry[];
+  policy?: TranslationPolicy;
+  // Reuse and record translations in the translation memory (default true)
+  useMemory?: boolean;
+  // Cancels queued and in-flight requests; an aborted batch rejects instead of reporting failed lines
+  signal?: AbortSignal;
+}
+
+// Machine translations below this confidence are not worth remembering
+const MIN_MEMORY_CONFIDENCE = 0.5;
+
+export class TranslationService {
+  async translateText(text: string, sourceLang: string = 'ja', targetLang: string = 'en', options: TranslationOptions = {}): Promise<TranslationResult> {
     // Validate input
     if (!text || text.trim().length === 0) {
       throw new Error('Text to translate is required and cannot be empty');
@@ -26,98 +50,75 @@ export class TranslationService {
       throw new Error('Text is too long for translation. Maximum length is 4000 characters.');
     }
 
-    return this.translateWithOpenAI(text, sourceLang, targetLang);
-  }
+    const useMemory = options.useMemory !== false;
+    if (useMemory) {
+      const remembered = await this.lookupMemory(text, sourceLang, targetLang, options);
+      if (remembered) {
+        return remembered;
+      }
+    }
 
-  private async translateWithOpenAI(text: string, sourceLang: string, targetLang: string): Promise<TranslationResult> {
-    let retryCount = 0;
-    const maxRetries = 3;
+    const result = await this.translateWithRetry(getTranslationProvider(options.provider), text, sourceLang, targetLang, options);
+    if (useMemory && translationPolicyService.isDefault(options.policy) && (result.confidence ?? 0) >= MIN_MEMORY_CONFIDENCE) {
+      await translationMemoryService.remember(text, result.translatedText, sourceLang, targetLang, 'machine');
+    }
+    return result;
+  }
 
-    while (retryCount < maxRetries) {
-      try {
-        const response = await this.openai.chat.completions.create({
-          model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-          messages: [
-            {
-              role: "system",
-              content: `You are a professional Japanese to English translator specializing in accurate, natural translations. 
-              Maintain the original meaning while making the English sound natural and fluent. 
-              Respond with JSON in this exact format: { "translation": "your translation here" }`
-            },
-            {
-              role: "user",
-              content: `Translate this Japanese text to English: "${text}"`
-            }
-          ],
-          response_format: { type: "json_object" },
-          temperature: 0.3, // Lower temperature for more consistent translations
-          max_tokens: 1000
-        });
+  private async lookupMemory(text: string, sourceLang: string, targetLang: string, options: TranslationOptions): Promise<TranslationResult | null> {
+    const entry = await translationMemoryService.lookup(text, sourceLang, targetLang);
 
-        if (!response.choices || response.choices.length === 0) {
-          throw new Error('No translation response received from OpenAI');
-        }
+    // A remembered translation that breaks the current glossary is re-translated instead
+    if (!entry || glossaryService.missingTerms(text, entry.targetText, options.glossary).length > 0) {
+      return null;
+    }
 
-        const messageContent = response.choices[0].message?.content;
-        if (!messageContent) {
-          throw new Error('Empty response from OpenAI');
-        }
+    // Machine entries were produced without a style policy; only human corrections apply under one
+    if (!translationPolicyService.isDefault(options.policy) && entry.origin !== 'human') {
+      return null;
+    }
 
-        let result;
-        try {
-          result = JSON.parse(messageContent);
-        } catch (parseError) {
-          throw new Error('Invalid JSON response from OpenAI');
-        }
+    return {
+      originalText: text,
+      translatedText: entry.targetText,
+      confidence: 1
+    };
+  }
 
-        if (!result.translation) {
-          throw new Error('Translation not found in response');
-        }
+  private async translateWithRetry(provider: TranslationProvider, text: string, sourceLang: string, targetLang: string, options: TranslationOptions): Promise<TranslationResult> {
+    try {
+      return await translationScheduler.schedule(async () => {
+        const result = await provider.translate(text, sourceLang, targetLang, { glossary: options.glossary, policy: options.policy, signal: options.signal });
 
         // Validate translation quality
-        const translatedText = result.translation.trim();
-        if (translatedText.length === 0) {
+        if (!result.translatedText || result.translatedText.trim().length === 0) {
           throw new Error('Empty translation received');
         }
 
-        return {
-          originalText: text,
-          translatedText: translatedText,
-          confidence: 0.95
-        };
-      } catch (error) {
-        retryCount++;
-        console.warn(`Translation attempt ${retryCount} failed:`, error);
-
-        if (retryCount >= maxRetries) {
-          console.error("OpenAI translation error after retries:", error);
-          
-          // Provide specific error messages
-          if (error instanceof Error) {
-            if (error.message.includes('API key')) {
-              throw new Error('OpenAI API key is invalid or missing. Please check your configuration.');
-            }
-            if (error.message.includes('quota')) {
-              throw new Error('OpenAI API quota exceeded. Please check your usage limits.');
-            }
-            if (error.message.includes('rate limit')) {
-              throw new Error('Rate limit exceeded. Please try again in a few moments.');
-            }
-            throw new Error(`Failed to translate text: ${error.message}`);
-          }
-          
-          throw new Error('Failed to translate text: Unknown error occurred');
-        }
+        return result;
+      }, { label: `${provider.name} translation`, signal: options.signal });
+    } catch (error) {
+      console.error(`${provider.name} translation error after retries:`, error);
 
-        // Wait before retry (exponential backoff)
-        await new Promise(resolve => setTimeout(resolve, Math.pow(2, retryCount) * 1000));
+      // Provide specific error messages
+      if (error instanceof Error) {
+        if (error.message.includes('API key')) {
+          throw new Error(`${provider.name} API key is invalid or missing. Please check your configuration.`);
+        }
+        if (error.message.includes('quota')) {
+          throw new Error(`${provider.name} API quota exceeded. Please check your usage limits.`);
+        }
+        if (error.message.includes('rate limit')) {
+          throw new Error('Rate limit exceeded. Please try again in a few moments.');
+        }
+        throw new Error(`Failed to translate text: ${error.message}`);
       }
-    }
 
-    throw new Error('Translation failed after all retries');
+      throw new Error('Failed to translate text: Unknown error occurred');
+    }
   }
 
-  async translateBatch(texts: string[], sourceLang: string = 'ja', targetLang: string = 'en'): Promise<TranslationResult[]> {
+  async translateBatch(texts: string[], sourceLang: string = 'ja', targetLang: string = 'en', options: TranslationOptions = {}): Promise<TranslationResult[]> {
     if (!texts || texts.length === 0) {
       throw new Error('No texts provided for batch translation');
     }
@@ -129,16 +130,21 @@ export class TranslationService {
       throw new Error('No valid texts found for translation');
     }
 
-    // Process translations with proper error handling
+    const provider = getTranslationProvider(options.provider);
+    if (options.mode === 'context' && provider.translateWindow) {
+      return this.translateWithContext(provider, validTexts, sourceLang, targetLang, options);
+    }
+
+    // Every request goes through the shared scheduler, so this only queues them
     const translationPromises = validTexts.map(async (text, index) => {
       try {
-        return await this.translateText(text, sourceLang, targetLang);
+        return await this.translateText(text, sourceLang, targetLang, options);
       } catch (error) {
         console.error(`Failed to translate text ${index}:`, error);
-        // Return a fallback translation instead of failing completely
+        // Zero confidence with no text marks the line as failed instead of failing the whole batch
         return {
           originalText: text,
-          translatedText: `[Translation failed: ${text}]`,
+          translatedText: '',
           confidence: 0
         };
       }
@@ -147,14 +153,198 @@ export class TranslationService {
     const translations = await Promise.all(translationPromises);
     
     // Ensure we have at least some successful translations
-    const successfulTranslations = translations.filter(t => t.confidence > 0);
+    const successfulTranslations = translations.filter(t => (t.confidence ?? 0) > 0);
     
     if (successfulTranslations.length === 0) {
-      throw new Error('All translations failed. Please check your OpenAI API key and quota.');
+      throw new Error('All translations failed. Please check your translation provider configuration and quota.');
     }
 
     return translations;
   }
+
+  // Translates texts whose source language varies line by line. Lines already in the target
+  // language are passed through; the rest are translated in one batch per source language.
+  // Every result carries the id of its source; lines that could not be translated come back
+  // with status "failed" and no text rather than a placeholder.
+  async translateMixedBatch(items: SourceText[], targetLang: string = 'en', options: TranslationOptions = {}): Promise<CueTranslation[]> {
+    if (!items || items.length === 0) {
+      throw new Error('No texts provided for batch translation');
+    }
+
+    const results: CueTranslation[] = items.map(item => ({
+      id: item.id,
+      originalText: item.text,
+      translatedText: item.text,
+      confidence: 1,
+      status: 'translated'
+    }));
+
+    const groups = new Map<string, number[]>();
+    items.forEach((item, index) => {
+      if (item.language === targetLang || !item.text || item.text.trim().length === 0) return;
+      groups.set(item.language, [...(groups.get(item.language) || []), index]);
+    });
+
+    let failedGroups = 0;
+    for (const [sourceLang, indices] of Array.from(groups.entries())) {
+      options.signal?.throwIfAborted();
+      try {
+        const translations = await this.translateBatch(indices.map(index => items[index].text), sourceLang, targetLang, options);
+        if (translations.length !== indices.length) {
+          throw new Error(`Translation count mismatch: expected ${indices.length}, received ${translations.length}`);
+        }
+        indices.forEach((index, position) => {
+          const translation = translations[position];
+          results[index] = translation.confidence
+            ? { ...translation, id: items[index].id, status: 'translated' }
+            : this.failedTranslation(items[index]);
+        });
+      } catch (error) {
+        failedGroups++;
+        console.error(`Failed to translate ${sourceLang} lines:`, error);
+        indices.forEach(index => {
+          results[index] = this.failedTranslation(items[index]);
+        });
+      }
+    }
+
+    options.signal?.throwIfAborted();
+    if (groups.size > 0 && failedGroups === groups.size && !items.some(item => item.language === targetLang)) {
+      throw new Error('All translations failed. Please check your translation provider configuration and quota.');
+    }
+
+    return results;
+  }
+
+  // Pairs every result with its source by id. A batch that does not line up one to one (missing,
+  // duplicate or foreign ids, or a result for different source text) is refused as a whole, since
+  // persisting it would put translations on the wrong cues.
+  alignTranslations(items: SourceText[], results: CueTranslation[]): Map<number, CueTranslation> {
+    if (results.length !== items.length) {
+      throw new Error(`Translation alignment failed: expected ${items.length} results, received ${results.length}`);
+    }
+
+    const byId = new Map<number, CueTranslation>();
+    for (const result of results) {
+      if (byId.has(result.id)) {
+        throw new Error(`Translation alignment failed: duplicate result for segment ${result.id}`);
+      }
+      byId.set(result.id, result);
+    }
+
+    for (const item of items) {
+      const result = byId.get(item.id);
+      if (!result) {
+        throw new Error(`Translation alignment failed: no result for segment ${item.id}`);
+      }
+      if (result.originalText.trim() !== item.text.trim()) {
+        throw new Error(`Translation alignment failed: result for segment ${item.id} belongs to different text`);
+      }
+    }
+
+    return byId;
+  }
+
+  private failedTranslation(item: SourceText): CueTranslation {
+    return {
+      id: item.id,
+      originalText: item.text,
+      translatedText: '',
+      confidence: 0,
+      status: 'failed'
+    };
+  }
+
+  private async translateWithContext(
+    provider: TranslationProvider,
+    texts: string[],
+    sourceLang: string,
+    targetLang: string,
+    options: TranslationOptions
+  ): Promise<TranslationResult[]> {
+    const windowSize = Math.max(1, options.windowSize || 8);
+    const contextSize = Math.max(0, options.contextSize ?? 3);
+
+    const windowPromises: Promise<TranslationResult[]>[] = [];
+    for (let start = 0; start < texts.length; start += windowSize) {
+      const lines = texts.slice(start, start + windowSize);
+      const context: TranslationContext = {
+        before: texts.slice(Math.max(0, start - contextSize), start),
+        after: texts.slice(start + lines.length, start + lines.length + contextSize)
+      };
+      windowPromises.push(this.translateWindowWithFallback(provider, lines, context, sourceLang, targetLang, options));
+    }
+
+    const translations = (await Promise.all(windowPromises)).flat();
+
+    // Never hand back a result that could shift later lines onto the wrong cue
+    if (translations.length !== texts.length) {
+      throw new Error(`Translation count mismatch: expected ${texts.length}, received ${translations.length}`);
+    }
+
+    if (!translations.some(t => (t.confidence ?? 0) > 0)) {
+      throw new Error('All translations failed. Please check your translation provider configuration and quota.');
+    }
+
+    return translations;
+  }
+
+  private async translateWindowWithFallback(
+    provider: TranslationProvider,
+    lines: string[],
+    context: TranslationContext,
+    sourceLang: string,
+    targetLang: string,
+    options: TranslationOptions
+  ): Promise<TranslationResult[]> {
+    // Skip the request entirely when every line is already in the translation memory
+    if (options.useMemory !== false) {
+      const remembered = await Promise.all(lines.map(text => this.lookupMemory(text, sourceLang, targetLang, options)));
+      if (remembered.every(result => result !== null)) {
+        return remembered as TranslationResult[];
+      }
+    }
+
+    try {
+      const translated = await translationScheduler.schedule(async () => {
+        const result = await provider.translateWindow!(lines, context, sourceLang, targetLang, { glossary: options.glossary, policy: options.policy, signal: options.signal });
+
+        // A malformed window is retried like a failed request
+        if (result.length !== lines.length) {
+          throw new Error(`Expected ${lines.length} translations, received ${result.length}`);
+        }
+        const missing = result.findIndex(text => !text || text.trim().length === 0);
+        if (missing !== -1) {
+          throw new Error(`Missing translation for line ${missing + 1}`);
+        }
+        return result;
+      }, { label: `${provider.name} context translation`, signal: options.signal });
+
+      if (options.useMemory !== false && translationPolicyService.isDefault(options.policy)) {
+        await Promise.all(lines.map((text, index) =>
+          translationMemoryService.remember(text, translated[index], sourceLang, targetLang, 'machine')
+        ));
+      }
+
+      return lines.map((text, index) => ({
+        originalText: text,
+        translatedText: translated[index].trim(),
+        confidence: 0.95
+      }));
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      console.warn(`Context translation with ${provider.name} failed:`, error);
+    }
+
+    // Fall back to translating the window line by line
+    console.warn(`Falling back to per-line translation for a window of ${lines.length} lines`);
+    return this.translateBatch(lines, sourceLang, targetLang, { ...options, mode: 'segment' })
+      .catch(() => lines.map(text => ({
+        originalText: text,
+        translatedText: '',
+        confidence: 0
+      })));
+  }
 }
 
 export const translationService = new TranslationService();
@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import zlib from "zlib";
+import { createZipArchive } from "./zip-archive";
+
+// Reads the entries back through the central directory, the way unzip tools do
+function readZip(archive: Buffer) {
+  const end = archive.length - 22;
+  assert.equal(archive.readUInt32LE(end), 0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  let central = archive.readUInt32LE(end + 16);
+
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    assert.equal(archive.readUInt32LE(central), 0x02014b50);
+    const crc = archive.readUInt32LE(central + 16);
+    const compressedSize = archive.readUInt32LE(central + 20);
+    const nameLength = archive.readUInt16LE(central + 28);
+    const offset = archive.readUInt32LE(central + 42);
+    const name = archive.toString('utf8', central + 46, central + 46 + nameLength);
+
+    assert.equal(archive.readUInt32LE(offset), 0x04034b50);
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26);
+    const content = zlib.inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+
+    entries.push({ name, crc, content: content.toString('utf8') });
+    central += 46 + nameLength;
+  }
+  return entries;
+}
+
+test('every entry can be read back by name with its content', () => {
+  const archive = createZipArchive([
+    { name: 'show.srt', content: '1\n00:00:00,000 --> 00:00:01,000\nHello\n' },
+    { name: '番組.fr.srt', content: Buffer.from('Bonjour') },
+    { name: 'empty.vtt', content: '' }
+  ]);
+
+  assert.deepEqual(readZip(archive).map(({ name, content }) => ({ name, content })), [
+    { name: 'show.srt', content: '1\n00:00:00,000 --> 00:00:01,000\nHello\n' },
+    { name: '番組.fr.srt', content: 'Bonjour' },
+    { name: 'empty.vtt', content: '' }
+  ]);
+});
+
+test('entries carry the standard CRC-32 of their content', () => {
+  const [entry, empty] = readZip(createZipArchive([
+    { name: 'check.txt', content: '123456789' },
+    { name: 'empty.txt', content: '' }
+  ]));
+
+  assert.equal(entry.crc, 0xcbf43926);
+  assert.equal(empty.crc, 0);
+});
@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage, ACTIVE_JOB_STATUSES, FINISHED_JOB_STATUSES, type JobStatus } from "./storage";
+
+async function jobIn(storage: MemStorage, path: JobStatus[]) {
+  const job = await storage.createProcessingJob({ audioFileId: 1, stage: 'transcription', progress: 0 });
+  for (const status of path) {
+    await storage.updateProcessingJob(job.id, { status });
+  }
+  return job.id;
+}
+
+test('a job moves through every processing status to completed', async () => {
+  const storage = new MemStorage();
+  const id = await jobIn(storage, ['transcribing', 'translating', 'segmenting', 'completed']);
+
+  assert.equal((await storage.getProcessingJob(id))?.status, 'completed');
+});
+
+test('a job cannot skip a processing status', async () => {
+  const storage = new MemStorage();
+  const id = await jobIn(storage, ['transcribing']);
+
+  await assert.rejects(storage.updateProcessingJob(id, { status: 'segmenting' }), /cannot move from transcribing to segmenting/);
+  assert.equal((await storage.getProcessingJob(id))?.status, 'transcribing');
+});
+
+test('repeating the current status is allowed for stage and progress updates', async () => {
+  const storage = new MemStorage();
+  const id = await jobIn(storage, ['transcribing']);
+
+  await storage.updateProcessingJob(id, { status: 'transcribing', stage: 'diarization', progress: 55 });
+  assert.equal((await storage.getProcessingJob(id))?.progress, 55);
+});
+
+test('completed and cancelled jobs are final', async () => {
+  const storage = new MemStorage();
+  const completed = await jobIn(storage, ['transcribing', 'translating', 'segmenting', 'completed']);
+  const cancelled = await jobIn(storage, ['cancelled']);
+
+  await assert.rejects(storage.updateProcessingJob(completed, { status: 'queued' }), /cannot move from completed to queued/);
+  await assert.rejects(storage.updateProcessingJob(cancelled, { status: 'transcribing' }), /cannot move from cancelled to transcribing/);
+});
+
+test('a failed job can only be requeued', async () => {
+  const storage = new MemStorage();
+  const id = await jobIn(storage, ['transcribing', 'translating', 'failed']);
+
+  await assert.rejects(storage.updateProcessingJob(id, { status: 'translating' }), /cannot move from failed to translating/);
+  await storage.updateProcessingJob(id, { status: 'queued' });
+  assert.equal((await storage.getProcessingJob(id))?.status, 'queued');
+});
+
+test('a queued job cannot fail or complete before it is claimed', async () => {
+  const storage = new MemStorage();
+  const id = await jobIn(storage, []);
+
+  await assert.rejects(storage.updateProcessingJob(id, { status: 'failed' }), /cannot move from queued to failed/);
+  await assert.rejects(storage.updateProcessingJob(id, { status: 'completed' }), /cannot move from queued to completed/);
+});
+
+test('claiming takes the oldest queued job and moves it to transcribing', async () => {
+  const storage = new MemStorage();
+  const first = await jobIn(storage, []);
+  await jobIn(storage, []);
+
+  const claimed = await storage.claimProcessingJob('worker-1', 60_000);
+  assert.equal(claimed?.id, first);
+  assert.equal(claimed?.status, 'transcribing');
+  assert.equal(claimed?.attempts, 1);
+  assert.equal(claimed?.leaseOwner, 'worker-1');
+});
+
+test('job listings page through the requested statuses, newest first', async () => {
+  const storage = new MemStorage();
+  const ids = [];
+  for (let i = 0; i < 3; i++) {
+    ids.push(await jobIn(storage, []));
+  }
+  await jobIn(storage, ['cancelled']);
+
+  const active = await storage.getProcessingJobs({ statuses: ACTIVE_JOB_STATUSES, offset: 0, limit: 2 });
+  assert.equal(active.total, 3);
+  assert.deepEqual(active.jobs.map(job => job.id), [ids[2], ids[1]]);
+
+  const history = await storage.getProcessingJobs({ statuses: FINISHED_JOB_STATUSES, offset: 0, limit: 10 });
+  assert.equal(history.total, 1);
+});
@@ -1,33 +1,180 @@
-import { audioFiles, subtitles, processingJobs, type AudioFile, type InsertAudioFile, type Subtitle, type InsertSubtitle, type ProcessingJob, type InsertProcessingJob } from "@shared/schema";
+import { audioFiles, subtitles, subtitleTranslations, speakers, processingJobs, jobCheckpoints, projects, glossaryTerms, translationPresets, translationMemory, type AudioFile, type InsertAudioFile, type Subtitle, type InsertSubtitle, type SubtitleTranslation, type InsertSubtitleTranslation, type Speaker, type InsertSpeaker, type ProcessingJob, type InsertProcessingJob, type JobCheckpoint, type InsertJobCheckpoint, type Project, type InsertProject, type GlossaryTerm, type InsertGlossaryTerm, type TranslationPreset, type InsertTranslationPreset, type TranslationMemoryEntry, type InsertTranslationMemoryEntry } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, or, and, isNull, isNotNull, inArray, lt, sql } from "drizzle-orm";
+
+// Processing job lifecycle: queued → transcribing → translating → segmenting → completed, with
+// failed and cancelled reachable from any running status. Running jobs go back to queued when their
+// worker dies, and failed jobs when they are resumed. Completed and cancelled are final. Segmenting
+// covers every step that builds the subtitle track, including writing cues and extra language tracks.
+export const JOB_STATUSES = ['queued', 'transcribing', 'translating', 'segmenting', 'completed', 'failed', 'cancelled'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export const RUNNING_JOB_STATUSES: JobStatus[] = ['transcribing', 'translating', 'segmenting'];
+export const ACTIVE_JOB_STATUSES: JobStatus[] = ['queued', ...RUNNING_JOB_STATUSES];
+export const FINISHED_JOB_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+const JOB_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  queued: ['transcribing', 'cancelled'],
+  transcribing: ['translating', 'queued', 'failed', 'cancelled'],
+  translating: ['segmenting', 'queued', 'failed', 'cancelled'],
+  segmenting: ['completed', 'queued', 'failed', 'cancelled'],
+  completed: [],
+  failed: ['queued'],
+  cancelled: []
+};
+
+export function isJobStatus(value: string): value is JobStatus {
+  return (JOB_STATUSES as readonly string[]).includes(value);
+}
+
+// Staying in the same status is always allowed, so stage and progress updates can repeat it
+function canTransitionJob(from: string, to: string): boolean {
+  return from === to || (isJobStatus(from) && isJobStatus(to) && JOB_TRANSITIONS[from].includes(to));
+}
+
+// Statuses a job may be in for an update to `to` to be accepted
+function jobStatusesLeadingTo(to: string): JobStatus[] {
+  return JOB_STATUSES.filter(from => canTransitionJob(from, to));
+}
+
+function invalidTransition(from: string, to: string): Error {
+  return new Error(`Processing job cannot move from ${from} to ${to}`);
+}
+
+export type ReplacementSubtitle = InsertSubtitle & { speakerLabel?: string | null };
+
+export interface ProcessingJobQuery {
+  statuses: JobStatus[];
+  offset: number;
+  limit: number;
+}
 
 export interface IStorage {
+  // Projects
+  createProject(project: InsertProject): Promise<Project>;
+  getProject(id: number): Promise<Project | undefined>;
+  getProjects(): Promise<Project[]>;
+
   // Audio Files
   createAudioFile(audioFile: InsertAudioFile): Promise<AudioFile>;
   getAudioFile(id: number): Promise<AudioFile | undefined>;
   updateAudioFileStatus(id: number, status: string): Promise<void>;
+  updateAudioFileDuration(id: number, duration: number): Promise<void>;
+  updateAudioFileProject(id: number, projectId: number | null): Promise<void>;
+  updateAudioFileTargetLanguages(id: number, targetLanguages: string[]): Promise<void>;
   getRecentAudioFiles(): Promise<AudioFile[]>;
   
   // Subtitles
   createSubtitle(subtitle: InsertSubtitle): Promise<Subtitle>;
+  getSubtitle(id: number): Promise<Subtitle | undefined>;
   getSubtitlesByAudioFile(audioFileId: number): Promise<Subtitle[]>;
   updateSubtitle(id: number, subtitle: Partial<Subtitle>): Promise<void>;
+  deleteSubtitlesByAudioFile(audioFileId: number): Promise<void>;
+  // Swaps every cue of a file for new ones, dropping its translation tracks and speakers, all or nothing.
+  // `speakers` are created in their place, and a cue naming one by `speakerLabel` is linked to it
+  replaceSubtitles(audioFileId: number, subtitles: ReplacementSubtitle[], speakers?: InsertSpeaker[]): Promise<Subtitle[]>;
+
+  // Subtitle Translations
+  upsertSubtitleTranslation(translation: InsertSubtitleTranslation): Promise<SubtitleTranslation>;
+  getSubtitleTranslationsByAudioFile(audioFileId: number, language?: string): Promise<SubtitleTranslation[]>;
+  deleteSubtitleTranslationsByAudioFile(audioFileId: number, language?: string): Promise<void>;
+
+  // Speakers
+  createSpeaker(speaker: InsertSpeaker): Promise<Speaker>;
+  getSpeaker(id: number): Promise<Speaker | undefined>;
+  getSpeakersByAudioFile(audioFileId: number): Promise<Speaker[]>;
+  updateSpeaker(id: number, updates: Partial<Speaker>): Promise<void>;
+  deleteSpeakersByAudioFile(audioFileId: number): Promise<void>;
   
   // Processing Jobs
   createProcessingJob(job: InsertProcessingJob): Promise<ProcessingJob>;
   getProcessingJob(id: number): Promise<ProcessingJob | undefined>;
+  // Throws when `updates.status` is not a valid transition from the job's current status
   updateProcessingJob(id: number, updates: Partial<ProcessingJob>): Promise<void>;
   getActiveProcessingJobs(): Promise<ProcessingJob[]>;
+  // Moves the oldest queued job to transcribing for `workerId`, or returns undefined when there is none
+  claimProcessingJob(workerId: string, leaseMs: number): Promise<ProcessingJob | undefined>;
+  // Returns false when the worker no longer holds the job
+  renewProcessingJobLease(id: number, workerId: string, leaseMs: number): Promise<boolean>;
+  // Running jobs whose worker stopped renewing the lease
+  getOrphanedProcessingJobs(): Promise<ProcessingJob[]>;
+  // Failed jobs last updated before `before` that still hold an upload
+  getFailedProcessingJobsWithUploads(before: Date): Promise<ProcessingJob[]>;
+  // Newest first, with the total number of matching jobs for paging
+  getProcessingJobs(query: ProcessingJobQuery): Promise<{ jobs: ProcessingJob[]; total: number }>;
+
+  // Job Checkpoints
+  upsertJobCheckpoint(checkpoint: InsertJobCheckpoint): Promise<JobCheckpoint>;
+  getJobCheckpoint(jobId: number, stage: string): Promise<JobCheckpoint | undefined>;
+  deleteJobCheckpoints(jobId: number): Promise<void>;
+
+  // Glossary
+  createGlossaryTerm(term: InsertGlossaryTerm): Promise<GlossaryTerm>;
+  getGlossaryTerm(id: number): Promise<GlossaryTerm | undefined>;
+  getGlossaryTermsByProject(projectId: number): Promise<GlossaryTerm[]>;
+  getGlossaryTermsForAudioFile(audioFileId: number): Promise<GlossaryTerm[]>;
+  updateGlossaryTerm(id: number, updates: Partial<GlossaryTerm>): Promise<void>;
+  deleteGlossaryTerm(id: number): Promise<void>;
+
+  // Translation Presets
+  createTranslationPreset(preset: InsertTranslationPreset): Promise<TranslationPreset>;
+  getTranslationPreset(id: number): Promise<TranslationPreset | undefined>;
+  getTranslationPresets(): Promise<TranslationPreset[]>;
+  updateTranslationPreset(id: number, updates: Partial<TranslationPreset>): Promise<void>;
+  // Files that used the preset fall back to the default style
+  deleteTranslationPreset(id: number): Promise<void>;
+
+  // Translation Memory
+  // Replaces the target text of the entry with the same source text, language pair and origin
+  upsertTranslationMemoryEntry(entry: InsertTranslationMemoryEntry): Promise<void>;
+  // Prefers a human entry over a machine one
+  findTranslationMemoryEntry(sourceLang: string, targetLang: string, sourceText: string): Promise<TranslationMemoryEntry | undefined>;
+  getTranslationMemoryCandidates(sourceLang: string, targetLang: string, minLength: number, maxLength: number): Promise<TranslationMemoryEntry[]>;
+  incrementTranslationMemoryUsage(id: number): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
+  private projects: Map<number, Project> = new Map();
   private audioFiles: Map<number, AudioFile> = new Map();
   private subtitles: Map<number, Subtitle> = new Map();
+  private subtitleTranslations: Map<number, SubtitleTranslation> = new Map();
+  private speakers: Map<number, Speaker> = new Map();
   private processingJobs: Map<number, ProcessingJob> = new Map();
+  private jobCheckpoints: Map<number, JobCheckpoint> = new Map();
+  private glossaryTerms: Map<number, GlossaryTerm> = new Map();
+  private currentProjectId = 1;
   private currentAudioFileId = 1;
   private currentSubtitleId = 1;
+  private currentSubtitleTranslationId = 1;
+  private currentSpeakerId = 1;
   private currentJobId = 1;
+  private currentJobCheckpointId = 1;
+  private currentGlossaryTermId = 1;
+  private translationPresets: Map<number, TranslationPreset> = new Map();
+  private currentTranslationPresetId = 1;
+  private translationMemory: Map<number, TranslationMemoryEntry> = new Map();
+  private currentTranslationMemoryId = 1;
+
+  // Projects
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const id = this.currentProjectId++;
+    const project: Project = {
+      ...insertProject,
+      id,
+      createdAt: new Date(),
+    };
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async getProject(id: number): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async getProjects(): Promise<Project[]> {
+    return Array.from(this.projects.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
 
   // Audio Files
   async createAudioFile(insertAudioFile: InsertAudioFile): Promise<AudioFile> {
@@ -35,6 +182,9 @@ export class MemStorage implements IStorage {
     const audioFile: AudioFile = {
       ...insertAudioFile,
       id,
+      projectId: insertAudioFile.projectId ?? null,
+      translationPresetId: insertAudioFile.translationPresetId ?? null,
+      targetLanguages: insertAudioFile.targetLanguages ?? null,
       duration: insertAudioFile.duration || null,
       status: insertAudioFile.status || 'uploaded',
       createdAt: new Date(),
@@ -55,6 +205,30 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async updateAudioFileDuration(id: number, duration: number): Promise<void> {
+    const audioFile = this.audioFiles.get(id);
+    if (audioFile) {
+      audioFile.duration = duration;
+      this.audioFiles.set(id, audioFile);
+    }
+  }
+
+  async updateAudioFileProject(id: number, projectId: number | null): Promise<void> {
+    const audioFile = this.audioFiles.get(id);
+    if (audioFile) {
+      audioFile.projectId = projectId;
+      this.audioFiles.set(id, audioFile);
+    }
+  }
+
+  async updateAudioFileTargetLanguages(id: number, targetLanguages: string[]): Promise<void> {
+    const audioFile = this.audioFiles.get(id);
+    if (audioFile) {
+      audioFile.targetLanguages = targetLanguages;
+      this.audioFiles.set(id, audioFile);
+    }
+  }
+
   async getRecentAudioFiles(): Promise<AudioFile[]> {
     return Array.from(this.audioFiles.values())
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
@@ -67,12 +241,20 @@ export class MemStorage implements IStorage {
     const subtitle: Subtitle = {
       ...insertSubtitle,
       id,
+      language: insertSubtitle.language ?? null,
+      words: insertSubtitle.words ?? null,
+      speakerId: insertSubtitle.speakerId ?? null,
+      translationStatus: insertSubtitle.translationStatus || 'translated',
       createdAt: new Date(),
     };
     this.subtitles.set(id, subtitle);
     return subtitle;
   }
 
+  async getSubtitle(id: number): Promise<Subtitle | undefined> {
+    return this.subtitles.get(id);
+  }
+
   async getSubtitlesByAudioFile(audioFileId: number): Promise<Subtitle[]> {
     return Array.from(this.subtitles.values())
       .filter(subtitle => subtitle.audioFileId === audioFileId)
@@ -87,15 +269,111 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async deleteSubtitlesByAudioFile(audioFileId: number): Promise<void> {
+    await this.deleteSubtitleTranslationsByAudioFile(audioFileId);
+    Array.from(this.subtitles.values())
+      .filter(subtitle => subtitle.audioFileId === audioFileId)
+      .forEach(subtitle => this.subtitles.delete(subtitle.id));
+  }
+
+  async replaceSubtitles(audioFileId: number, insertSubtitles: ReplacementSubtitle[], insertSpeakers: InsertSpeaker[] = []): Promise<Subtitle[]> {
+    await this.deleteSubtitlesByAudioFile(audioFileId);
+    await this.deleteSpeakersByAudioFile(audioFileId);
+
+    const speakerIds = new Map<string, number>();
+    for (const speaker of insertSpeakers) {
+      speakerIds.set(speaker.label, (await this.createSpeaker({ ...speaker, audioFileId })).id);
+    }
+
+    const created: Subtitle[] = [];
+    for (const { speakerLabel, ...subtitle } of insertSubtitles) {
+      created.push(await this.createSubtitle({
+        ...subtitle,
+        audioFileId,
+        speakerId: speakerIds.get(speakerLabel ?? '') ?? subtitle.speakerId ?? null
+      }));
+    }
+    return created;
+  }
+
+  // Subtitle Translations
+  async upsertSubtitleTranslation(insertTranslation: InsertSubtitleTranslation): Promise<SubtitleTranslation> {
+    const existing = Array.from(this.subtitleTranslations.values())
+      .find(translation => translation.subtitleId === insertTranslation.subtitleId && translation.language === insertTranslation.language);
+    if (existing) {
+      existing.text = insertTranslation.text;
+      return existing;
+    }
+
+    const id = this.currentSubtitleTranslationId++;
+    const translation: SubtitleTranslation = {
+      ...insertTranslation,
+      id,
+      createdAt: new Date(),
+    };
+    this.subtitleTranslations.set(id, translation);
+    return translation;
+  }
+
+  async getSubtitleTranslationsByAudioFile(audioFileId: number, language?: string): Promise<SubtitleTranslation[]> {
+    return Array.from(this.subtitleTranslations.values())
+      .filter(translation => this.subtitles.get(translation.subtitleId)?.audioFileId === audioFileId &&
+        (!language || translation.language === language));
+  }
+
+  async deleteSubtitleTranslationsByAudioFile(audioFileId: number, language?: string): Promise<void> {
+    (await this.getSubtitleTranslationsByAudioFile(audioFileId, language))
+      .forEach(translation => this.subtitleTranslations.delete(translation.id));
+  }
+
+  // Speakers
+  async createSpeaker(insertSpeaker: InsertSpeaker): Promise<Speaker> {
+    const id = this.currentSpeakerId++;
+    const speaker: Speaker = {
+      ...insertSpeaker,
+      id,
+      createdAt: new Date(),
+    };
+    this.speakers.set(id, speaker);
+    return speaker;
+  }
+
+  async getSpeaker(id: number): Promise<Speaker | undefined> {
+    return this.speakers.get(id);
+  }
+
+  async getSpeakersByAudioFile(audioFileId: number): Promise<Speaker[]> {
+    return Array.from(this.speakers.values())
+      .filter(speaker => speaker.audioFileId === audioFileId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updateSpeaker(id: number, updates: Partial<Speaker>): Promise<void> {
+    const speaker = this.speakers.get(id);
+    if (speaker) {
+      Object.assign(speaker, updates);
+    }
+  }
+
+  async deleteSpeakersByAudioFile(audioFileId: number): Promise<void> {
+    (await this.getSpeakersByAudioFile(audioFileId))
+      .forEach(speaker => this.speakers.delete(speaker.id));
+  }
+
   // Processing Jobs
   async createProcessingJob(insertJob: InsertProcessingJob): Promise<ProcessingJob> {
     const id = this.currentJobId++;
     const job: ProcessingJob = {
       ...insertJob,
       id,
-      status: insertJob.status || 'pending',
+      status: insertJob.status || 'queued',
       progress: insertJob.progress || 0,
       error: insertJob.error || null,
+      filePath: insertJob.filePath || null,
+      options: insertJob.options || null,
+      attempts: 0,
+      leaseOwner: null,
+      leaseExpiresAt: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -110,6 +388,9 @@ export class MemStorage implements IStorage {
   async updateProcessingJob(id: number, updates: Partial<ProcessingJob>): Promise<void> {
     const job = this.processingJobs.get(id);
     if (job) {
+      if (updates.status && !canTransitionJob(job.status, updates.status)) {
+        throw invalidTransition(job.status, updates.status);
+      }
       Object.assign(job, updates);
       job.updatedAt = new Date();
       this.processingJobs.set(id, job);
@@ -118,7 +399,215 @@ export class MemStorage implements IStorage {
 
   async getActiveProcessingJobs(): Promise<ProcessingJob[]> {
     return Array.from(this.processingJobs.values())
-      .filter(job => job.status === "pending" || job.status === "processing");
+      .filter(job => ACTIVE_JOB_STATUSES.includes(job.status as JobStatus))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async claimProcessingJob(workerId: string, leaseMs: number): Promise<ProcessingJob | undefined> {
+    const job = Array.from(this.processingJobs.values())
+      .filter(job => job.status === 'queued')
+      .sort((a, b) => a.id - b.id)[0];
+    if (job) {
+      Object.assign(job, {
+        status: 'transcribing',
+        attempts: job.attempts + 1,
+        leaseOwner: workerId,
+        leaseExpiresAt: new Date(Date.now() + leaseMs),
+        updatedAt: new Date()
+      });
+    }
+    return job;
+  }
+
+  async renewProcessingJobLease(id: number, workerId: string, leaseMs: number): Promise<boolean> {
+    const job = this.processingJobs.get(id);
+    if (!job || !RUNNING_JOB_STATUSES.includes(job.status as JobStatus) || job.leaseOwner !== workerId) {
+      return false;
+    }
+    job.leaseExpiresAt = new Date(Date.now() + leaseMs);
+    return true;
+  }
+
+  async getOrphanedProcessingJobs(): Promise<ProcessingJob[]> {
+    const now = new Date();
+    return Array.from(this.processingJobs.values())
+      .filter(job => RUNNING_JOB_STATUSES.includes(job.status as JobStatus) && (!job.leaseExpiresAt || job.leaseExpiresAt < now));
+  }
+
+  async getFailedProcessingJobsWithUploads(before: Date): Promise<ProcessingJob[]> {
+    return Array.from(this.processingJobs.values())
+      .filter(job => job.status === 'failed' && job.filePath && job.updatedAt < before);
+  }
+
+  async getProcessingJobs({ statuses, offset, limit }: ProcessingJobQuery): Promise<{ jobs: ProcessingJob[]; total: number }> {
+    const matching = Array.from(this.processingJobs.values())
+      .filter(job => statuses.includes(job.status as JobStatus))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+    return { jobs: matching.slice(offset, offset + limit), total: matching.length };
+  }
+
+  // Job Checkpoints
+  async upsertJobCheckpoint(insertCheckpoint: InsertJobCheckpoint): Promise<JobCheckpoint> {
+    const existing = await this.getJobCheckpoint(insertCheckpoint.jobId, insertCheckpoint.stage);
+    if (existing) {
+      existing.data = insertCheckpoint.data;
+      return existing;
+    }
+
+    const id = this.currentJobCheckpointId++;
+    const checkpoint: JobCheckpoint = {
+      ...insertCheckpoint,
+      id,
+      createdAt: new Date(),
+    };
+    this.jobCheckpoints.set(id, checkpoint);
+    return checkpoint;
+  }
+
+  async getJobCheckpoint(jobId: number, stage: string): Promise<JobCheckpoint | undefined> {
+    return Array.from(this.jobCheckpoints.values())
+      .find(checkpoint => checkpoint.jobId === jobId && checkpoint.stage === stage);
+  }
+
+  async deleteJobCheckpoints(jobId: number): Promise<void> {
+    Array.from(this.jobCheckpoints.values())
+      .filter(checkpoint => checkpoint.jobId === jobId)
+      .forEach(checkpoint => this.jobCheckpoints.delete(checkpoint.id));
+  }
+
+  // Glossary
+  async createGlossaryTerm(insertTerm: InsertGlossaryTerm): Promise<GlossaryTerm> {
+    const id = this.currentGlossaryTermId++;
+    const term: GlossaryTerm = {
+      ...insertTerm,
+      id,
+      projectId: insertTerm.projectId ?? null,
+      audioFileId: insertTerm.audioFileId ?? null,
+      notes: insertTerm.notes ?? null,
+      createdAt: new Date(),
+    };
+    this.glossaryTerms.set(id, term);
+    return term;
+  }
+
+  async getGlossaryTerm(id: number): Promise<GlossaryTerm | undefined> {
+    return this.glossaryTerms.get(id);
+  }
+
+  async getGlossaryTermsByProject(projectId: number): Promise<GlossaryTerm[]> {
+    return Array.from(this.glossaryTerms.values())
+      .filter(term => term.projectId === projectId && term.audioFileId === null);
+  }
+
+  async getGlossaryTermsForAudioFile(audioFileId: number): Promise<GlossaryTerm[]> {
+    const audioFile = this.audioFiles.get(audioFileId);
+    return Array.from(this.glossaryTerms.values())
+      .filter(term => term.audioFileId === audioFileId ||
+        (audioFile?.projectId != null && term.projectId === audioFile.projectId && term.audioFileId === null));
+  }
+
+  async updateGlossaryTerm(id: number, updates: Partial<GlossaryTerm>): Promise<void> {
+    const term = this.glossaryTerms.get(id);
+    if (term) {
+      // Skip undefined values so a partial update never clears a stored field
+      for (const [key, value] of Object.entries(updates)) {
+        if (value !== undefined) {
+          (term as Record<string, unknown>)[key] = value;
+        }
+      }
+      this.glossaryTerms.set(id, term);
+    }
+  }
+
+  async deleteGlossaryTerm(id: number): Promise<void> {
+    this.glossaryTerms.delete(id);
+  }
+
+  // Translation Presets
+  async createTranslationPreset(insertPreset: InsertTranslationPreset): Promise<TranslationPreset> {
+    const id = this.currentTranslationPresetId++;
+    const preset: TranslationPreset = {
+      ...insertPreset,
+      id,
+      honorifics: insertPreset.honorifics || "keep",
+      register: insertPreset.register || "neutral",
+      units: insertPreset.units || "preserve",
+      names: insertPreset.names || "preserve",
+      profanity: insertPreset.profanity || "keep",
+      createdAt: new Date(),
+    };
+    this.translationPresets.set(id, preset);
+    return preset;
+  }
+
+  async getTranslationPreset(id: number): Promise<TranslationPreset | undefined> {
+    return this.translationPresets.get(id);
+  }
+
+  async getTranslationPresets(): Promise<TranslationPreset[]> {
+    return Array.from(this.translationPresets.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateTranslationPreset(id: number, updates: Partial<TranslationPreset>): Promise<void> {
+    const preset = this.translationPresets.get(id);
+    if (preset) {
+      Object.assign(preset, updates);
+      this.translationPresets.set(id, preset);
+    }
+  }
+
+  async deleteTranslationPreset(id: number): Promise<void> {
+    for (const audioFile of Array.from(this.audioFiles.values())) {
+      if (audioFile.translationPresetId === id) {
+        audioFile.translationPresetId = null;
+      }
+    }
+    this.translationPresets.delete(id);
+  }
+
+  // Translation Memory
+  async upsertTranslationMemoryEntry(insertEntry: InsertTranslationMemoryEntry): Promise<void> {
+    const origin = insertEntry.origin || "machine";
+    const existing = Array.from(this.translationMemory.values())
+      .find(entry => entry.sourceLang === insertEntry.sourceLang && entry.targetLang === insertEntry.targetLang &&
+        entry.sourceText === insertEntry.sourceText && entry.origin === origin);
+    if (existing) {
+      existing.targetText = insertEntry.targetText;
+      existing.updatedAt = new Date();
+      return;
+    }
+
+    const id = this.currentTranslationMemoryId++;
+    this.translationMemory.set(id, {
+      ...insertEntry,
+      id,
+      origin,
+      usageCount: insertEntry.usageCount ?? 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async findTranslationMemoryEntry(sourceLang: string, targetLang: string, sourceText: string): Promise<TranslationMemoryEntry | undefined> {
+    return Array.from(this.translationMemory.values())
+      .filter(entry => entry.sourceLang === sourceLang && entry.targetLang === targetLang && entry.sourceText === sourceText)
+      .sort((a, b) => Number(b.origin === 'human') - Number(a.origin === 'human'))[0];
+  }
+
+  async getTranslationMemoryCandidates(sourceLang: string, targetLang: string, minLength: number, maxLength: number): Promise<TranslationMemoryEntry[]> {
+    return Array.from(this.translationMemory.values())
+      .filter(entry => entry.sourceLang === sourceLang && entry.targetLang === targetLang &&
+        entry.sourceText.length >= minLength && entry.sourceText.length <= maxLength)
+      .sort((a, b) => b.usageCount - a.usageCount)
+      .slice(0, 200);
+  }
+
+  async incrementTranslationMemoryUsage(id: number): Promise<void> {
+    const entry = this.translationMemory.get(id);
+    if (entry) {
+      entry.usageCount++;
+    }
   }
 }
 
@@ -139,6 +628,39 @@ export class DatabaseStorage implements IStorage {
     throw new Error('User functionality not implemented');
   }
 
+  // Projects
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    try {
+      const [project] = await db
+        .insert(projects)
+        .values(insertProject)
+        .returning();
+      return project;
+    } catch (error) {
+      console.error('Failed to create project:', error);
+      throw new Error('Failed to create project in database');
+    }
+  }
+
+  async getProject(id: number): Promise<Project | undefined> {
+    try {
+      const [project] = await db.select().from(projects).where(eq(projects.id, id));
+      return project || undefined;
+    } catch (error) {
+      console.error('Failed to get project:', error);
+      return undefined;
+    }
+  }
+
+  async getProjects(): Promise<Project[]> {
+    try {
+      return await db.select().from(projects).orderBy(projects.name);
+    } catch (error) {
+      console.error('Failed to get projects:', error);
+      return [];
+    }
+  }
+
   // Audio Files
   async createAudioFile(insertAudioFile: InsertAudioFile): Promise<AudioFile> {
     try {
@@ -179,6 +701,42 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async updateAudioFileDuration(id: number, duration: number): Promise<void> {
+    try {
+      await db
+        .update(audioFiles)
+        .set({ duration })
+        .where(eq(audioFiles.id, id));
+    } catch (error) {
+      console.error('Failed to update audio file duration:', error);
+      throw new Error('Failed to update audio file duration');
+    }
+  }
+
+  async updateAudioFileProject(id: number, projectId: number | null): Promise<void> {
+    try {
+      await db
+        .update(audioFiles)
+        .set({ projectId })
+        .where(eq(audioFiles.id, id));
+    } catch (error) {
+      console.error('Failed to update audio file project:', error);
+      throw new Error('Failed to update audio file project');
+    }
+  }
+
+  async updateAudioFileTargetLanguages(id: number, targetLanguages: string[]): Promise<void> {
+    try {
+      await db
+        .update(audioFiles)
+        .set({ targetLanguages })
+        .where(eq(audioFiles.id, id));
+    } catch (error) {
+      console.error('Failed to update audio file languages:', error);
+      throw new Error('Failed to update audio file languages');
+    }
+  }
+
   async getRecentAudioFiles(): Promise<AudioFile[]> {
     try {
       const files = await db
@@ -207,6 +765,16 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getSubtitle(id: number): Promise<Subtitle | undefined> {
+    try {
+      const [subtitle] = await db.select().from(subtitles).where(eq(subtitles.id, id));
+      return subtitle || undefined;
+    } catch (error) {
+      console.error('Failed to get subtitle:', error);
+      return undefined;
+    }
+  }
+
   async getSubtitlesByAudioFile(audioFileId: number): Promise<Subtitle[]> {
     try {
       const subtitleList = await db
@@ -233,6 +801,181 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async deleteSubtitlesByAudioFile(audioFileId: number): Promise<void> {
+    try {
+      await this.deleteSubtitleTranslationsByAudioFile(audioFileId);
+      await db
+        .delete(subtitles)
+        .where(eq(subtitles.audioFileId, audioFileId));
+    } catch (error) {
+      console.error('Failed to delete subtitles:', error);
+      throw new Error('Failed to delete subtitles');
+    }
+  }
+
+  async replaceSubtitles(audioFileId: number, insertSubtitles: ReplacementSubtitle[], insertSpeakers: InsertSpeaker[] = []): Promise<Subtitle[]> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx
+          .delete(subtitleTranslations)
+          .where(inArray(
+            subtitleTranslations.subtitleId,
+            tx.select({ id: subtitles.id }).from(subtitles).where(eq(subtitles.audioFileId, audioFileId))
+          ));
+        await tx.delete(subtitles).where(eq(subtitles.audioFileId, audioFileId));
+        await tx.delete(speakers).where(eq(speakers.audioFileId, audioFileId));
+
+        const speakerIds = new Map<string, number>();
+        if (insertSpeakers.length > 0) {
+          const created = await tx
+            .insert(speakers)
+            .values(insertSpeakers.map(speaker => ({ ...speaker, audioFileId })))
+            .returning();
+          created.forEach(speaker => speakerIds.set(speaker.label, speaker.id));
+        }
+
+        if (insertSubtitles.length === 0) {
+          return [];
+        }
+        return tx
+          .insert(subtitles)
+          .values(insertSubtitles.map(({ speakerLabel, ...subtitle }) => ({
+            ...subtitle,
+            audioFileId,
+            speakerId: speakerIds.get(speakerLabel ?? '') ?? subtitle.speakerId ?? null
+          })))
+          .returning();
+      });
+    } catch (error) {
+      console.error('Failed to replace subtitles:', error);
+      throw new Error('Failed to replace subtitles');
+    }
+  }
+
+  // Subtitle Translations
+  async upsertSubtitleTranslation(insertTranslation: InsertSubtitleTranslation): Promise<SubtitleTranslation> {
+    try {
+      const [existing] = await db
+        .select()
+        .from(subtitleTranslations)
+        .where(and(
+          eq(subtitleTranslations.subtitleId, insertTranslation.subtitleId),
+          eq(subtitleTranslations.language, insertTranslation.language)
+        ));
+
+      if (existing) {
+        const [updated] = await db
+          .update(subtitleTranslations)
+          .set({ text: insertTranslation.text })
+          .where(eq(subtitleTranslations.id, existing.id))
+          .returning();
+        return updated;
+      }
+
+      const [translation] = await db
+        .insert(subtitleTranslations)
+        .values(insertTranslation)
+        .returning();
+      return translation;
+    } catch (error) {
+      console.error('Failed to save subtitle translation:', error);
+      throw new Error('Failed to save subtitle translation in database');
+    }
+  }
+
+  async getSubtitleTranslationsByAudioFile(audioFileId: number, language?: string): Promise<SubtitleTranslation[]> {
+    try {
+      const fileSubtitles = inArray(
+        subtitleTranslations.subtitleId,
+        db.select({ id: subtitles.id }).from(subtitles).where(eq(subtitles.audioFileId, audioFileId))
+      );
+
+      return await db
+        .select()
+        .from(subtitleTranslations)
+        .where(language ? and(fileSubtitles, eq(subtitleTranslations.language, language)) : fileSubtitles);
+    } catch (error) {
+      console.error('Failed to get subtitle translations:', error);
+      return [];
+    }
+  }
+
+  async deleteSubtitleTranslationsByAudioFile(audioFileId: number, language?: string): Promise<void> {
+    try {
+      const fileSubtitles = inArray(
+        subtitleTranslations.subtitleId,
+        db.select({ id: subtitles.id }).from(subtitles).where(eq(subtitles.audioFileId, audioFileId))
+      );
+
+      await db
+        .delete(subtitleTranslations)
+        .where(language ? and(fileSubtitles, eq(subtitleTranslations.language, language)) : fileSubtitles);
+    } catch (error) {
+      console.error('Failed to delete subtitle translations:', error);
+      throw new Error('Failed to delete subtitle translations');
+    }
+  }
+
+  // Speakers
+  async createSpeaker(insertSpeaker: InsertSpeaker): Promise<Speaker> {
+    try {
+      const [speaker] = await db
+        .insert(speakers)
+        .values(insertSpeaker)
+        .returning();
+      return speaker;
+    } catch (error) {
+      console.error('Failed to create speaker:', error);
+      throw new Error('Failed to create speaker in database');
+    }
+  }
+
+  async getSpeaker(id: number): Promise<Speaker | undefined> {
+    try {
+      const [speaker] = await db.select().from(speakers).where(eq(speakers.id, id));
+      return speaker || undefined;
+    } catch (error) {
+      console.error('Failed to get speaker:', error);
+      return undefined;
+    }
+  }
+
+  async getSpeakersByAudioFile(audioFileId: number): Promise<Speaker[]> {
+    try {
+      return await db
+        .select()
+        .from(speakers)
+        .where(eq(speakers.audioFileId, audioFileId))
+        .orderBy(speakers.id);
+    } catch (error) {
+      console.error('Failed to get speakers:', error);
+      return [];
+    }
+  }
+
+  async updateSpeaker(id: number, updates: Partial<Speaker>): Promise<void> {
+    try {
+      await db
+        .update(speakers)
+        .set(updates)
+        .where(eq(speakers.id, id));
+    } catch (error) {
+      console.error('Failed to update speaker:', error);
+      throw new Error('Failed to update speaker');
+    }
+  }
+
+  async deleteSpeakersByAudioFile(audioFileId: number): Promise<void> {
+    try {
+      await db
+        .delete(speakers)
+        .where(eq(speakers.audioFileId, audioFileId));
+    } catch (error) {
+      console.error('Failed to delete speakers:', error);
+      throw new Error('Failed to delete speakers');
+    }
+  }
+
   // Processing Jobs
   async createProcessingJob(insertJob: InsertProcessingJob): Promise<ProcessingJob> {
     try {
@@ -240,7 +983,7 @@ export class DatabaseStorage implements IStorage {
         .insert(processingJobs)
         .values({
           ...insertJob,
-          status: insertJob.status || 'pending',
+          status: insertJob.status || 'queued',
           progress: insertJob.progress || 0,
           error: insertJob.error || null
         })
@@ -263,18 +1006,32 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateProcessingJob(id: number, updates: Partial<ProcessingJob>): Promise<void> {
+    // The allowed previous statuses are part of the WHERE clause, so a status written concurrently
+    // (a cancel, say) cannot be overwritten by a transition that is no longer valid
+    const from = updates.status ? jobStatusesLeadingTo(updates.status) : null;
+    let updated: { id: number }[];
     try {
-      await db
+      updated = await db
         .update(processingJobs)
         .set({
           ...updates,
           updatedAt: new Date()
         })
-        .where(eq(processingJobs.id, id));
+        .where(from
+          ? and(eq(processingJobs.id, id), inArray(processingJobs.status, from))
+          : eq(processingJobs.id, id))
+        .returning({ id: processingJobs.id });
     } catch (error) {
       console.error('Failed to update processing job:', error);
       throw new Error('Failed to update processing job');
     }
+
+    if (updates.status && updated.length === 0) {
+      const job = await this.getProcessingJob(id);
+      if (job) {
+        throw invalidTransition(job.status, updates.status);
+      }
+    }
   }
 
   async getActiveProcessingJobs(): Promise<ProcessingJob[]> {
@@ -282,7 +1039,7 @@ export class DatabaseStorage implements IStorage {
       const jobs = await db
         .select()
         .from(processingJobs)
-        .where(eq(processingJobs.status, 'processing'))
+        .where(inArray(processingJobs.status, ACTIVE_JOB_STATUSES))
         .orderBy(desc(processingJobs.createdAt));
       return jobs;
     } catch (error) {
@@ -290,6 +1047,370 @@ export class DatabaseStorage implements IStorage {
       return [];
     }
   }
+
+  async claimProcessingJob(workerId: string, leaseMs: number): Promise<ProcessingJob | undefined> {
+    try {
+      // Another worker may take the same candidate first; the status check in the update makes
+      // that a miss rather than a double claim, and the next candidate is tried
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const [candidate] = await db
+          .select({ id: processingJobs.id })
+          .from(processingJobs)
+          .where(eq(processingJobs.status, 'queued'))
+          .orderBy(processingJobs.id)
+          .limit(1);
+        if (!candidate) {
+          return undefined;
+        }
+
+        const [job] = await db
+          .update(processingJobs)
+          .set({
+            status: 'transcribing',
+            attempts: sql`${processingJobs.attempts} + 1`,
+            leaseOwner: workerId,
+            leaseExpiresAt: new Date(Date.now() + leaseMs),
+            updatedAt: new Date()
+          })
+          .where(and(eq(processingJobs.id, candidate.id), eq(processingJobs.status, 'queued')))
+          .returning();
+        if (job) {
+          return job;
+        }
+      }
+      return undefined;
+    } catch (error) {
+      console.error('Failed to claim processing job:', error);
+      throw new Error('Failed to claim processing job');
+    }
+  }
+
+  async renewProcessingJobLease(id: number, workerId: string, leaseMs: number): Promise<boolean> {
+    try {
+      const renewed = await db
+        .update(processingJobs)
+        .set({ leaseExpiresAt: new Date(Date.now() + leaseMs) })
+        .where(and(
+          eq(processingJobs.id, id),
+          inArray(processingJobs.status, RUNNING_JOB_STATUSES),
+          eq(processingJobs.leaseOwner, workerId)
+        ))
+        .returning({ id: processingJobs.id });
+      return renewed.length > 0;
+    } catch (error) {
+      console.error('Failed to renew processing job lease:', error);
+      throw new Error('Failed to renew processing job lease');
+    }
+  }
+
+  async getOrphanedProcessingJobs(): Promise<ProcessingJob[]> {
+    try {
+      return await db
+        .select()
+        .from(processingJobs)
+        .where(and(
+          inArray(processingJobs.status, RUNNING_JOB_STATUSES),
+          or(isNull(processingJobs.leaseExpiresAt), lt(processingJobs.leaseExpiresAt, new Date()))
+        ));
+    } catch (error) {
+      console.error('Failed to get orphaned processing jobs:', error);
+      return [];
+    }
+  }
+
+  async getFailedProcessingJobsWithUploads(before: Date): Promise<ProcessingJob[]> {
+    try {
+      return await db
+        .select()
+        .from(processingJobs)
+        .where(and(
+          eq(processingJobs.status, 'failed'),
+          isNotNull(processingJobs.filePath),
+          lt(processingJobs.updatedAt, before)
+        ));
+    } catch (error) {
+      console.error('Failed to get failed processing jobs:', error);
+      return [];
+    }
+  }
+
+  async getProcessingJobs({ statuses, offset, limit }: ProcessingJobQuery): Promise<{ jobs: ProcessingJob[]; total: number }> {
+    try {
+      const condition = inArray(processingJobs.status, statuses);
+      const [jobs, [{ count }]] = await Promise.all([
+        db
+          .select()
+          .from(processingJobs)
+          .where(condition)
+          .orderBy(desc(processingJobs.createdAt), desc(processingJobs.id))
+          .offset(offset)
+          .limit(limit),
+        db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(processingJobs)
+          .where(condition)
+      ]);
+      return { jobs, total: count };
+    } catch (error) {
+      console.error('Failed to get processing jobs:', error);
+      return { jobs: [], total: 0 };
+    }
+  }
+
+  // Job Checkpoints
+  async upsertJobCheckpoint(insertCheckpoint: InsertJobCheckpoint): Promise<JobCheckpoint> {
+    try {
+      const [existing] = await db
+        .select({ id: jobCheckpoints.id })
+        .from(jobCheckpoints)
+        .where(and(
+          eq(jobCheckpoints.jobId, insertCheckpoint.jobId),
+          eq(jobCheckpoints.stage, insertCheckpoint.stage)
+        ));
+
+      if (existing) {
+        const [updated] = await db
+          .update(jobCheckpoints)
+          .set({ data: insertCheckpoint.data })
+          .where(eq(jobCheckpoints.id, existing.id))
+          .returning();
+        return updated;
+      }
+
+      const [checkpoint] = await db
+        .insert(jobCheckpoints)
+        .values(insertCheckpoint)
+        .returning();
+      return checkpoint;
+    } catch (error) {
+      console.error('Failed to save job checkpoint:', error);
+      throw new Error('Failed to save job checkpoint in database');
+    }
+  }
+
+  async getJobCheckpoint(jobId: number, stage: string): Promise<JobCheckpoint | undefined> {
+    try {
+      const [checkpoint] = await db
+        .select()
+        .from(jobCheckpoints)
+        .where(and(eq(jobCheckpoints.jobId, jobId), eq(jobCheckpoints.stage, stage)));
+      return checkpoint || undefined;
+    } catch (error) {
+      console.error('Failed to get job checkpoint:', error);
+      return undefined;
+    }
+  }
+
+  async deleteJobCheckpoints(jobId: number): Promise<void> {
+    try {
+      await db.delete(jobCheckpoints).where(eq(jobCheckpoints.jobId, jobId));
+    } catch (error) {
+      console.error('Failed to delete job checkpoints:', error);
+      throw new Error('Failed to delete job checkpoints');
+    }
+  }
+
+  // Glossary
+  async createGlossaryTerm(insertTerm: InsertGlossaryTerm): Promise<GlossaryTerm> {
+    try {
+      const [term] = await db
+        .insert(glossaryTerms)
+        .values(insertTerm)
+        .returning();
+      return term;
+    } catch (error) {
+      console.error('Failed to create glossary term:', error);
+      throw new Error('Failed to create glossary term in database');
+    }
+  }
+
+  async getGlossaryTerm(id: number): Promise<GlossaryTerm | undefined> {
+    try {
+      const [term] = await db.select().from(glossaryTerms).where(eq(glossaryTerms.id, id));
+      return term || undefined;
+    } catch (error) {
+      console.error('Failed to get glossary term:', error);
+      return undefined;
+    }
+  }
+
+  async getGlossaryTermsByProject(projectId: number): Promise<GlossaryTerm[]> {
+    try {
+      return await db
+        .select()
+        .from(glossaryTerms)
+        .where(and(eq(glossaryTerms.projectId, projectId), isNull(glossaryTerms.audioFileId)))
+        .orderBy(glossaryTerms.sourceTerm);
+    } catch (error) {
+      console.error('Failed to get project glossary:', error);
+      return [];
+    }
+  }
+
+  async getGlossaryTermsForAudioFile(audioFileId: number): Promise<GlossaryTerm[]> {
+    try {
+      const audioFile = await this.getAudioFile(audioFileId);
+      const fileTerms = eq(glossaryTerms.audioFileId, audioFileId);
+
+      return await db
+        .select()
+        .from(glossaryTerms)
+        .where(audioFile?.projectId != null
+          ? or(fileTerms, and(eq(glossaryTerms.projectId, audioFile.projectId), isNull(glossaryTerms.audioFileId)))
+          : fileTerms)
+        .orderBy(glossaryTerms.sourceTerm);
+    } catch (error) {
+      console.error('Failed to get glossary terms:', error);
+      return [];
+    }
+  }
+
+  async updateGlossaryTerm(id: number, updates: Partial<GlossaryTerm>): Promise<void> {
+    try {
+      await db
+        .update(glossaryTerms)
+        .set(updates)
+        .where(eq(glossaryTerms.id, id));
+    } catch (error) {
+      console.error('Failed to update glossary term:', error);
+      throw new Error('Failed to update glossary term');
+    }
+  }
+
+  async deleteGlossaryTerm(id: number): Promise<void> {
+    try {
+      await db.delete(glossaryTerms).where(eq(glossaryTerms.id, id));
+    } catch (error) {
+      console.error('Failed to delete glossary term:', error);
+      throw new Error('Failed to delete glossary term');
+    }
+  }
+
+  // Translation Presets
+  async createTranslationPreset(insertPreset: InsertTranslationPreset): Promise<TranslationPreset> {
+    try {
+      const [preset] = await db
+        .insert(translationPresets)
+        .values(insertPreset)
+        .returning();
+      return preset;
+    } catch (error) {
+      console.error('Failed to create translation preset:', error);
+      throw new Error('Failed to create translation preset in database');
+    }
+  }
+
+  async getTranslationPreset(id: number): Promise<TranslationPreset | undefined> {
+    try {
+      const [preset] = await db.select().from(translationPresets).where(eq(translationPresets.id, id));
+      return preset || undefined;
+    } catch (error) {
+      console.error('Failed to get translation preset:', error);
+      return undefined;
+    }
+  }
+
+  async getTranslationPresets(): Promise<TranslationPreset[]> {
+    try {
+      return await db.select().from(translationPresets).orderBy(translationPresets.name);
+    } catch (error) {
+      console.error('Failed to get translation presets:', error);
+      return [];
+    }
+  }
+
+  async updateTranslationPreset(id: number, updates: Partial<TranslationPreset>): Promise<void> {
+    try {
+      await db
+        .update(translationPresets)
+        .set(updates)
+        .where(eq(translationPresets.id, id));
+    } catch (error) {
+      console.error('Failed to update translation preset:', error);
+      throw new Error('Failed to update translation preset');
+    }
+  }
+
+  async deleteTranslationPreset(id: number): Promise<void> {
+    try {
+      await db.transaction(async (tx) => {
+        await tx
+          .update(audioFiles)
+          .set({ translationPresetId: null })
+          .where(eq(audioFiles.translationPresetId, id));
+        await tx.delete(translationPresets).where(eq(translationPresets.id, id));
+      });
+    } catch (error) {
+      console.error('Failed to delete translation preset:', error);
+      throw new Error('Failed to delete translation preset');
+    }
+  }
+
+  // Translation Memory
+  async upsertTranslationMemoryEntry(insertEntry: InsertTranslationMemoryEntry): Promise<void> {
+    try {
+      await db
+        .insert(translationMemory)
+        .values(insertEntry)
+        .onConflictDoUpdate({
+          target: [translationMemory.sourceLang, translationMemory.targetLang, translationMemory.sourceText, translationMemory.origin],
+          set: { targetText: insertEntry.targetText, updatedAt: new Date() }
+        });
+    } catch (error) {
+      console.error('Failed to save translation memory entry:', error);
+      throw new Error('Failed to save translation memory entry in database');
+    }
+  }
+
+  async findTranslationMemoryEntry(sourceLang: string, targetLang: string, sourceText: string): Promise<TranslationMemoryEntry | undefined> {
+    try {
+      const [entry] = await db
+        .select()
+        .from(translationMemory)
+        .where(and(
+          eq(translationMemory.sourceLang, sourceLang),
+          eq(translationMemory.targetLang, targetLang),
+          eq(translationMemory.sourceText, sourceText)
+        ))
+        .orderBy(sql`${translationMemory.origin} = 'human' desc`)
+        .limit(1);
+      return entry || undefined;
+    } catch (error) {
+      console.error('Failed to get translation memory entry:', error);
+      return undefined;
+    }
+  }
+
+  async getTranslationMemoryCandidates(sourceLang: string, targetLang: string, minLength: number, maxLength: number): Promise<TranslationMemoryEntry[]> {
+    try {
+      return await db
+        .select()
+        .from(translationMemory)
+        .where(and(
+          eq(translationMemory.sourceLang, sourceLang),
+          eq(translationMemory.targetLang, targetLang),
+          sql`char_length(${translationMemory.sourceText}) between ${minLength} and ${maxLength}`
+        ))
+        .orderBy(desc(translationMemory.usageCount))
+        .limit(200);
+    } catch (error) {
+      console.error('Failed to get translation memory candidates:', error);
+      return [];
+    }
+  }
+
+  // Incremented in SQL so concurrent lookups do not lose counts
+  async incrementTranslationMemoryUsage(id: number): Promise<void> {
+    try {
+      await db
+        .update(translationMemory)
+        .set({ usageCount: sql`${translationMemory.usageCount} + 1` })
+        .where(eq(translationMemory.id, id));
+    } catch (error) {
+      console.error('Failed to update translation memory usage:', error);
+      throw new Error('Failed to update translation memory usage');
+    }
+  }
 }
 
 // Use DatabaseStorage instead of MemStorage
@@ -1,56 +1,211 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const projects = pgTable("projects", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const audioFiles = pgTable("audio_files", {
   id: serial("id").primaryKey(),
+  projectId: integer("project_id"),
+  translationPresetId: integer("translation_preset_id"),
+  targetLanguages: json("target_languages").$type<string[]>(), // English is always the primary track
   filename: text("filename").notNull(),
   originalName: text("original_name").notNull(),
   duration: integer("duration"), // in seconds
-  status: text("status").notNull().default("uploaded"), // uploaded, processing, completed, failed
+  status: text("status").notNull().default("uploaded"), // uploaded, processing, completed, failed, cancelled, imported
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Word (or character, for Japanese) timing within a cue, in absolute milliseconds
+export interface SubtitleWord {
+  start: number;
+  end: number;
+  text: string;
+}
+
 export const subtitles = pgTable("subtitles", {
   id: serial("id").primaryKey(),
   audioFileId: integer("audio_file_id").notNull(),
   startTime: integer("start_time").notNull(), // in milliseconds
   endTime: integer("end_time").notNull(), // in milliseconds
-  japaneseText: text("japanese_text").notNull(),
+  japaneseText: text("japanese_text").notNull(), // source text, whatever its language
   englishText: text("english_text").notNull(),
+  language: text("language"), // detected source language of the cue
+  words: json("words").$type<SubtitleWord[]>(),
+  speakerId: integer("speaker_id"), // set when the file was diarized
+  translationStatus: text("translation_status").notNull().default("translated"), // translated, failed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Additional target-language tracks; English lives on the subtitle row itself
+export const subtitleTranslations = pgTable("subtitle_translations", {
+  id: serial("id").primaryKey(),
+  subtitleId: integer("subtitle_id").notNull(),
+  language: text("language").notNull(),
+  text: text("text").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Speakers found by diarization; label is the diarizer's id, name and color are user-editable
+export const speakers = pgTable("speakers", {
+  id: serial("id").primaryKey(),
+  audioFileId: integer("audio_file_id").notNull(),
+  label: text("label").notNull(),
+  name: text("name").notNull(),
+  color: text("color").notNull(), // #RRGGBB
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const processingJobs = pgTable("processing_jobs", {
   id: serial("id").primaryKey(),
   audioFileId: integer("audio_file_id").notNull(),
-  stage: text("stage").notNull(), // transcription, translation, subtitle_generation
+  stage: text("stage").notNull(), // transcription, diarization, translation, segmentation, subtitle_generation
   progress: integer("progress").notNull().default(0), // 0-100
-  status: text("status").notNull().default("pending"), // pending, processing, completed, failed
+  status: text("status").notNull().default("queued"), // queued, transcribing, translating, segmenting, completed, failed, cancelled
   error: text("error"),
+  // Everything a worker needs to run the job, so it survives a restart
+  filePath: text("file_path"),
+  options: json("options").$type<Record<string, unknown>>(),
+  attempts: integer("attempts").notNull().default(0),
+  // The worker holding the job keeps pushing the lease forward; an expired lease means it died
+  leaseOwner: text("lease_owner"),
+  leaseExpiresAt: timestamp("lease_expires_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
-export const insertAudioFileSchema = createInsertSchema(audioFiles).omit({
+// Output of a completed processing stage, so a failed job can resume after it
+export const jobCheckpoints = pgTable("job_checkpoints", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull(),
+  stage: text("stage").notNull(), // transcription, diarization, translation
+  data: json("data").$type<object>().notNull(), // the stage output: a transcript, speaker turns or translations
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// A term belongs to a single audio file or to a project shared by many files
+export const glossaryTerms = pgTable("glossary_terms", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id"),
+  audioFileId: integer("audio_file_id"),
+  sourceTerm: text("source_term").notNull(),
+  targetTerm: text("target_term").notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Reusable translation style settings shared across files
+export const translationPresets = pgTable("translation_presets", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  honorifics: text("honorifics").notNull().default("keep"), // keep, localize
+  register: text("register").notNull().default("neutral"), // neutral, formal, casual
+  units: text("units").notNull().default("preserve"), // preserve, localize
+  names: text("names").notNull().default("preserve"), // preserve, localize
+  profanity: text("profanity").notNull().default("keep"), // keep, soften, censor
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Reusable translations keyed by normalized source text; human edits take precedence over machine output
+export const translationMemory = pgTable("translation_memory", {
+  id: serial("id").primaryKey(),
+  sourceLang: text("source_lang").notNull(),
+  targetLang: text("target_lang").notNull(),
+  sourceText: text("source_text").notNull(), // normalized
+  targetText: text("target_text").notNull(),
+  origin: text("origin").notNull().default("machine"), // machine, human
+  usageCount: integer("usage_count").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  // Lets concurrent batches upsert the same entry instead of inserting duplicates
+  uniqueIndex("translation_memory_source_idx").on(table.sourceLang, table.targetLang, table.sourceText, table.origin),
+]);
+
+export const insertProjectSchema = createInsertSchema(projects).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAudioFileSchema = createInsertSchema(audioFiles, {
+  targetLanguages: z.array(z.string()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSubtitleSchema = createInsertSchema(subtitles, {
+  words: z.array(z.object({ start: z.number(), end: z.number(), text: z.string() })).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSubtitleTranslationSchema = createInsertSchema(subtitleTranslations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSpeakerSchema = createInsertSchema(speakers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProcessingJobSchema = createInsertSchema(processingJobs, {
+  options: z.record(z.unknown()).nullable().optional(),
+}).omit({
+  id: true,
+  attempts: true,
+  leaseOwner: true,
+  leaseExpiresAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertJobCheckpointSchema = createInsertSchema(jobCheckpoints, {
+  data: z.custom<object>(value => typeof value === 'object' && value !== null, 'Checkpoint data must be an object or an array'),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGlossaryTermSchema = createInsertSchema(glossaryTerms).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertSubtitleSchema = createInsertSchema(subtitles).omit({
+export const insertTranslationPresetSchema = createInsertSchema(translationPresets).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertProcessingJobSchema = createInsertSchema(processingJobs).omit({
+export const insertTranslationMemorySchema = createInsertSchema(translationMemory).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export type Project = typeof projects.$inferSelect;
+export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type AudioFile = typeof audioFiles.$inferSelect;
 export type InsertAudioFile = z.infer<typeof insertAudioFileSchema>;
 export type Subtitle = typeof subtitles.$inferSelect;
 export type InsertSubtitle = z.infer<typeof insertSubtitleSchema>;
+export type SubtitleTranslation = typeof subtitleTranslations.$inferSelect;
+export type InsertSubtitleTranslation = z.infer<typeof insertSubtitleTranslationSchema>;
+export type Speaker = typeof speakers.$inferSelect;
+export type InsertSpeaker = z.infer<typeof insertSpeakerSchema>;
 export type ProcessingJob = typeof processingJobs.$inferSelect;
 export type InsertProcessingJob = z.infer<typeof insertProcessingJobSchema>;
+export type JobCheckpoint = typeof jobCheckpoints.$inferSelect;
+export type InsertJobCheckpoint = z.infer<typeof insertJobCheckpointSchema>;
+export type GlossaryTerm = typeof glossaryTerms.$inferSelect;
+export type InsertGlossaryTerm = z.infer<typeof insertGlossaryTermSchema>;
+export type TranslationPreset = typeof translationPresets.$inferSelect;
+export type InsertTranslationPreset = z.infer<typeof insertTranslationPresetSchema>;
+export type TranslationMemoryEntry = typeof translationMemory.$inferSelect;
+export type InsertTranslationMemoryEntry = z.infer<typeof insertTranslationMemorySchema>;